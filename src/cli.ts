@@ -1,6 +1,18 @@
+import path from 'node:path'
 import { Command } from 'commander'
+import {
+	type ConfigOptions,
+	findConfigFile,
+	loadConfig,
+	resolveConfig
+} from './config'
+import { createLogger, type LogFormat, type LogLevel } from './logger'
 import { migrateBarrelImports } from './migrate-barrel-imports'
-import { defaultOptions } from './options'
+import {
+	defaultOptions,
+	type ImportExtension,
+	type ImportSortOrder
+} from './options'
 
 export async function main(): Promise<void> {
 	const program = new Command()
@@ -9,13 +21,25 @@ export async function main(): Promise<void> {
 		.name('migrate-barrel-imports')
 		.description('CLI tool to migrate barrel files imports to direct imports')
 		.argument(
-			'<source-path>',
-			'Glob pattern for source packages containing barrel files (e.g. "libs/*")'
+			'[source-path]',
+			'Glob pattern for source packages containing barrel files (e.g. "libs/*"), required unless set in the config file or --all-workspaces is used'
 		)
 		.argument(
 			'[target-path]',
 			'Path to the directory where imports should be migrated (default: current directory)'
 		)
+		.option(
+			'--all-workspaces',
+			'Migrate every package listed by pnpm-workspace.yaml, package.json workspaces, lerna.json or nx.json'
+		)
+		.option(
+			'--include <patterns>',
+			'Comma-separated list of package name patterns to migrate'
+		)
+		.option(
+			'--exclude <patterns>',
+			'Comma-separated list of package name patterns to leave out'
+		)
 		.option(
 			'--ignore-source-files <patterns>',
 			'Comma-separated list of file patterns to ignore in source directory'
@@ -28,31 +52,214 @@ export async function main(): Promise<void> {
 			'--no-extension',
 			'Exclude js|jsx|ts|tsx|mjs|cjs file extensions from import statements'
 		)
+		.option(
+			'--import-extension <policy>',
+			'Extension of rewritten import paths: "none", "source", or "js-emitted" for .js paths in ES modules (overrides --no-extension)'
+		)
+		.option(
+			'--relative-imports',
+			'Use relative paths for imports inside a source package, and migrate relative imports of its barrel files'
+		)
 		.option('--dry-run', 'Preview changes without modifying files')
+		.option(
+			'--check',
+			'Report pending barrel import rewrites without modifying files and exit with code 1 if there are any'
+		)
+		.option('--diff', 'Print a unified diff of each file that changes')
+		.option(
+			'--patch <file>',
+			'Write the changes to a patch file that git apply accepts, instead of modifying files'
+		)
+		.option('--report <file>', 'Write a JSON report of the migration to a file')
+		.option(
+			'--generate-exports',
+			'Add package.json exports entries for migrated files that source packages do not expose'
+		)
+		.option(
+			'--exports-wildcards',
+			'Combine generated exports entries in the same directory into wildcard patterns'
+		)
+		.option(
+			'--exports-conditions <conditions>',
+			'Comma-separated list of conditions for generated exports entries (e.g. "types,import,require")'
+		)
+		.option(
+			'--sort-imports <order>',
+			'Sort the imports that replace a barrel import by "path" or by "specifier"'
+		)
+		.option(
+			'--merge-imports',
+			'Add migrated names to existing imports of the same path instead of adding declarations'
+		)
+		.option(
+			'--config <file>',
+			'Path to a config file (default: migrate-barrel-imports.config.{ts,json} in the current or a parent directory)'
+		)
+		.option('--preset <name>', 'Apply a preset from the config file')
+		.option(
+			'--since <ref>',
+			'Only migrate target files changed since a git ref (e.g. "origin/main")'
+		)
+		.option('--staged', 'Only migrate target files staged in git')
+		.option(
+			'--concurrency <n>',
+			'Number of worker threads that scan target files in parallel (default: 1); only the scan is parallel, and files that import a package are parsed again to migrate them'
+		)
+		.option('--quiet', 'Only print warnings and errors')
+		.option('--verbose', 'Print every file that is scanned or processed')
+		.option(
+			'--json-logs',
+			'Print output as newline-delimited JSON (NDJSON) for CI ingestion'
+		)
 		.allowUnknownOption(false)
 		.parse(process.argv)
 
 	const args = program.args
-	if (!args[0]) {
-		console.error('Error: source-path is required')
+	const options = program.opts()
+
+	const flagLogLevel: LogLevel | undefined = options.quiet
+		? 'warn'
+		: options.verbose
+			? 'debug'
+			: undefined
+	const flagLogFormat: LogFormat | undefined = options.jsonLogs
+		? 'json'
+		: undefined
+	let logger = createLogger({ level: flagLogLevel, format: flagLogFormat })
+
+	if (options.quiet && options.verbose) {
+		logger.error('Error: --quiet and --verbose cannot be combined')
 		process.exit(1)
 	}
 
-	const sourcePath = args[0]
-	const targetPath = args[1] || defaultOptions.targetPath
-	const options = program.opts()
+	// Config file options sit between the defaults and the CLI flags
+	const configPath = options.config
+		? path.resolve(options.config)
+		: findConfigFile(process.cwd())
+	let config: ConfigOptions = {}
+	if (configPath) {
+		try {
+			config = resolveConfig(
+				await loadConfig(configPath),
+				configPath,
+				options.preset
+			)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error)
+			logger.error(
+				`Error: Could not load config file ${configPath}: ${message}`
+			)
+			process.exit(1)
+		}
+	} else if (options.preset) {
+		logger.error('Error: --preset requires a config file')
+		process.exit(1)
+	}
+
+	// The config file can set the log level and format when the flags do not
+	const logLevel = flagLogLevel ?? config.logLevel
+	const logFormat = flagLogFormat ?? config.logFormat
+	logger = createLogger({ level: logLevel, format: logFormat })
+	if (configPath) {
+		logger.info(`Using config file: ${configPath}`, { configPath })
+	}
+
+	// Workspace packages can be migrated without a source path
+	const allWorkspaces = options.allWorkspaces ?? config.allWorkspaces ?? false
+	const sourcePath = args[0] || config.sourcePath || (allWorkspaces ? [] : '')
+	if (!sourcePath) {
+		logger.error(
+			'Error: source-path is required unless --all-workspaces is set'
+		)
+		process.exit(1)
+	}
 
-	await migrateBarrelImports({
+	const targetPath = args[1] || config.targetPath || defaultOptions.targetPath
+
+	const concurrency =
+		options.concurrency === undefined
+			? config.concurrency
+			: Number(options.concurrency)
+	if (
+		concurrency !== undefined &&
+		(!Number.isInteger(concurrency) || concurrency < 1)
+	) {
+		logger.error('Error: --concurrency must be a positive integer')
+		process.exit(1)
+	}
+
+	const sortImports: ImportSortOrder | undefined =
+		options.sortImports ?? config.sortImports
+	if (
+		sortImports !== undefined &&
+		sortImports !== 'path' &&
+		sortImports !== 'specifier'
+	) {
+		logger.error('Error: --sort-imports must be "path" or "specifier"')
+		process.exit(1)
+	}
+
+	const importExtension: ImportExtension | undefined =
+		options.importExtension ?? config.importExtension
+	if (
+		importExtension !== undefined &&
+		importExtension !== 'none' &&
+		importExtension !== 'source' &&
+		importExtension !== 'js-emitted'
+	) {
+		logger.error(
+			'Error: --import-extension must be "none", "source" or "js-emitted"'
+		)
+		process.exit(1)
+	}
+
+	const report = await migrateBarrelImports({
+		...defaultOptions,
+		...config,
 		sourcePath,
 		targetPath,
+		allWorkspaces,
+		include: options.include
+			? options.include.split(',')
+			: (config.include ?? defaultOptions.include),
+		exclude: options.exclude
+			? options.exclude.split(',')
+			: (config.exclude ?? defaultOptions.exclude),
 		ignoreSourceFiles: options.ignoreSourceFiles
 			? options.ignoreSourceFiles.split(',')
-			: defaultOptions.ignoreSourceFiles,
+			: (config.ignoreSourceFiles ?? defaultOptions.ignoreSourceFiles),
 		ignoreTargetFiles: options.ignoreTargetFiles
 			? options.ignoreTargetFiles.split(',')
-			: defaultOptions.ignoreTargetFiles,
+			: (config.ignoreTargetFiles ?? defaultOptions.ignoreTargetFiles),
 		includeExtension:
-			options.extension !== false ? true : defaultOptions.includeExtension,
-		dryRun: options.dryRun ?? false
+			options.extension !== false ? (config.includeExtension ?? true) : false,
+		importExtension,
+		relativeImports: options.relativeImports ?? config.relativeImports ?? false,
+		dryRun: options.dryRun ?? config.dryRun ?? false,
+		check: options.check ?? config.check ?? false,
+		diff: options.diff ?? config.diff ?? false,
+		patch: options.patch ?? config.patch,
+		report: options.report ?? config.report,
+		generateExports: options.generateExports ?? config.generateExports ?? false,
+		exportsWildcards:
+			options.exportsWildcards ?? config.exportsWildcards ?? false,
+		exportsConditions: options.exportsConditions
+			? options.exportsConditions.split(',')
+			: (config.exportsConditions ?? defaultOptions.exportsConditions),
+		sortImports,
+		mergeImports: options.mergeImports ?? config.mergeImports ?? false,
+		since: options.since ?? config.since,
+		staged: options.staged ?? config.staged,
+		concurrency,
+		logLevel,
+		logFormat
 	})
+
+	// Ambiguous names are left on the barrel until they are pinned, so they fail every run
+	if (
+		((options.check ?? config.check) && report.rewrites.length > 0) ||
+		report.ambiguous.length > 0
+	) {
+		process.exit(1)
+	}
 }
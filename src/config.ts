@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Discovers and loads the project config file, whose options sit
+ * between the defaults and the CLI flags
+ */
+
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { Options, PackageOptions } from './options'
+
+/**
+ * Config file names, in the order they are looked for in each directory
+ *
+ * JSON comes first, as every supported Node.js version can load it.
+ */
+export const CONFIG_FILE_NAMES = [
+	'migrate-barrel-imports.config.json',
+	'migrate-barrel-imports.config.ts'
+]
+
+// Node.js version from which TypeScript files can be imported without flags
+const TYPESCRIPT_NODE_VERSION = '22.18'
+
+/**
+ * Options a config file or preset can set
+ */
+export type ConfigOptions = Partial<Options>
+
+/**
+ * Content of a config file
+ * @property {Record<string, ConfigOptions>} [presets] - Named sets of options that are applied on top of the config
+ * @property {string} [preset] - Preset to apply when none is selected on the command line
+ */
+export type Config = ConfigOptions & {
+	presets?: Record<string, ConfigOptions>
+	preset?: string
+}
+
+/**
+ * Finds the config file for a directory, looking in the directory and then its ancestors
+ *
+ * @param {string} directory - Directory to start looking in
+ * @returns {string | undefined} Absolute path to the config file, or undefined if there is none
+ */
+export function findConfigFile(directory: string): string | undefined {
+	let currentDirectory = path.resolve(directory)
+	while (true) {
+		for (const fileName of CONFIG_FILE_NAMES) {
+			const configPath = path.join(currentDirectory, fileName)
+			if (existsSync(configPath)) {
+				return configPath
+			}
+		}
+
+		const parentDirectory = path.dirname(currentDirectory)
+		if (parentDirectory === currentDirectory) {
+			return undefined
+		}
+		currentDirectory = parentDirectory
+	}
+}
+
+/**
+ * Loads a config file
+ *
+ * JSON files are parsed, and TypeScript files are imported for their default export,
+ * which needs a Node.js version that runs TypeScript.
+ *
+ * @param {string} configPath - Path to the config file
+ * @returns {Promise<Config>} Content of the config file
+ * @throws {Error} If the config file is not an object, or Node.js cannot import a TypeScript config file
+ */
+export async function loadConfig(configPath: string): Promise<Config> {
+	const config: unknown = configPath.endsWith('.json')
+		? JSON.parse(await readFile(configPath, 'utf-8'))
+		: await import(pathToFileURL(configPath).href).then(
+				(configModule) => configModule.default ?? configModule,
+				(error: unknown) => {
+					if (
+						error instanceof Error &&
+						'code' in error &&
+						error.code === 'ERR_UNKNOWN_FILE_EXTENSION'
+					) {
+						throw new Error(
+							`TypeScript config files need Node.js ${TYPESCRIPT_NODE_VERSION} or later (running ${process.version}), use migrate-barrel-imports.config.json instead`
+						)
+					}
+					throw error
+				}
+			)
+
+	if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+		throw new Error('Config file must contain an object')
+	}
+	return config
+}
+
+/**
+ * Resolves a path from a config file against the directory of the config file
+ */
+function resolveConfigPath(configPath: string, value: string): string {
+	return path.resolve(path.dirname(configPath), value)
+}
+
+/**
+ * Applies a preset to a config and resolves its paths
+ *
+ * Preset options replace the options of the config, except per-package overrides,
+ * which are merged by package. Source, target, patch and report paths are resolved
+ * against the directory of the config file.
+ *
+ * @param {Config} config - Content of the config file
+ * @param {string} configPath - Path to the config file
+ * @param {string} [preset] - Preset to apply, instead of the one the config selects
+ * @returns {ConfigOptions} Options to merge between the defaults and the CLI flags
+ */
+export function resolveConfig(
+	config: Config,
+	configPath: string,
+	preset?: string
+): ConfigOptions {
+	const { presets = {}, preset: configPreset, ...configOptions } = config
+	const presetName = preset ?? configPreset
+
+	let presetOptions: ConfigOptions = {}
+	if (presetName !== undefined) {
+		const selectedPreset = presets[presetName]
+		if (!selectedPreset) {
+			const presetNames = Object.keys(presets)
+			throw new Error(
+				`Unknown preset "${presetName}". Available presets: ${presetNames.length > 0 ? presetNames.join(', ') : 'none'}`
+			)
+		}
+		presetOptions = selectedPreset
+	}
+
+	const options: ConfigOptions = { ...configOptions, ...presetOptions }
+
+	if (configOptions.packages || presetOptions.packages) {
+		const packages: Record<string, PackageOptions> = {
+			...configOptions.packages
+		}
+		for (const [pattern, overrides] of Object.entries(
+			presetOptions.packages ?? {}
+		)) {
+			packages[pattern] = { ...packages[pattern], ...overrides }
+		}
+		options.packages = packages
+	}
+
+	if (options.sourcePath !== undefined) {
+		options.sourcePath = Array.isArray(options.sourcePath)
+			? options.sourcePath.map((value) => resolveConfigPath(configPath, value))
+			: resolveConfigPath(configPath, options.sourcePath)
+	}
+	if (options.targetPath !== undefined) {
+		options.targetPath = resolveConfigPath(configPath, options.targetPath)
+	}
+	if (options.patch !== undefined) {
+		options.patch = resolveConfigPath(configPath, options.patch)
+	}
+	if (options.report !== undefined) {
+		options.report = resolveConfigPath(configPath, options.report)
+	}
+
+	return options
+}
@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Creates unified diffs of file changes, for previewing a migration
+ * and writing patches that `git apply` accepts
+ */
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3
+
+const COLORS = {
+	bold: '\u001b[1m',
+	cyan: '\u001b[36m',
+	green: '\u001b[32m',
+	red: '\u001b[31m',
+	reset: '\u001b[0m'
+}
+
+/**
+ * @property {' ' | '-' | '+'} type - Whether the line is unchanged, removed or added
+ * @property {string} text - Line including its line break, if it has one
+ */
+interface DiffLine {
+	type: ' ' | '-' | '+'
+	text: string
+}
+
+/**
+ * Splits content into lines, keeping line breaks so a missing final line break counts as a change
+ */
+function splitLines(content: string): string[] {
+	return content.match(/[^\n]*\n|[^\n]+$/g) ?? []
+}
+
+/**
+ * Computes the shortest edit script between two lists of lines (Myers' algorithm)
+ *
+ * @param {string[]} oldLines - Lines before the change
+ * @param {string[]} newLines - Lines after the change
+ * @returns {DiffLine[]} Unchanged, removed and added lines in order
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+	const max = oldLines.length + newLines.length
+	const offset = max + 1
+	const trace: Int32Array[] = []
+	const v = new Int32Array(2 * max + 3)
+
+	search: for (let d = 0; d <= max; d++) {
+		trace.push(v.slice())
+		for (let k = -d; k <= d; k += 2) {
+			let x =
+				k === -d ||
+				(k !== d && (v[k - 1 + offset] ?? 0) < (v[k + 1 + offset] ?? 0))
+					? (v[k + 1 + offset] ?? 0)
+					: (v[k - 1 + offset] ?? 0) + 1
+			let y = x - k
+			while (
+				x < oldLines.length &&
+				y < newLines.length &&
+				oldLines[x] === newLines[y]
+			) {
+				x++
+				y++
+			}
+			v[k + offset] = x
+			if (x >= oldLines.length && y >= newLines.length) {
+				break search
+			}
+		}
+	}
+
+	// Walk back through the trace to recover the edits
+	const lines: DiffLine[] = []
+	let x = oldLines.length
+	let y = newLines.length
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const state = trace[d] ?? v
+		const k = x - y
+		const previousK =
+			k === -d ||
+			(k !== d && (state[k - 1 + offset] ?? 0) < (state[k + 1 + offset] ?? 0))
+				? k + 1
+				: k - 1
+		const previousX = state[previousK + offset] ?? 0
+		const previousY = previousX - previousK
+
+		while (x > previousX && y > previousY) {
+			lines.push({ type: ' ', text: oldLines[x - 1] ?? '' })
+			x--
+			y--
+		}
+		if (d > 0) {
+			if (x === previousX) {
+				lines.push({ type: '+', text: newLines[y - 1] ?? '' })
+			} else {
+				lines.push({ type: '-', text: oldLines[x - 1] ?? '' })
+			}
+		}
+		x = previousX
+		y = previousY
+	}
+
+	// The walk collects the edits from the end
+	const ordered: DiffLine[] = []
+	for (let index = lines.length - 1; index >= 0; index--) {
+		const line = lines[index]
+		if (line) {
+			ordered.push(line)
+		}
+	}
+	return ordered
+}
+
+/**
+ * Formats a hunk range, which starts at the line before the hunk when it is empty
+ */
+function formatRange(start: number, count: number): string {
+	return `${count === 0 ? start : start + 1},${count}`
+}
+
+/**
+ * Creates a unified diff of a file change in the format of `git diff`
+ *
+ * @param {string} filePath - Path of the file, relative to where the patch is applied
+ * @param {string} oldContent - Content before the change
+ * @param {string} newContent - Content after the change
+ * @returns {string} Unified diff, or an empty string if the content did not change
+ */
+export function createUnifiedDiff(
+	filePath: string,
+	oldContent: string,
+	newContent: string
+): string {
+	if (oldContent === newContent) {
+		return ''
+	}
+
+	const lines = diffLines(splitLines(oldContent), splitLines(newContent))
+	const changes = lines.flatMap((line, index) =>
+		line.type === ' ' ? [] : [index]
+	)
+
+	// Changes closer than twice the context share a hunk
+	const groups: Array<[number, number]> = []
+	for (const index of changes) {
+		const group = groups[groups.length - 1]
+		if (group && index - group[1] <= CONTEXT_LINES * 2) {
+			group[1] = index
+		} else {
+			groups.push([index, index])
+		}
+	}
+
+	const posixPath = filePath.split('\\').join('/')
+	let diff = `diff --git a/${posixPath} b/${posixPath}\n--- a/${posixPath}\n+++ b/${posixPath}\n`
+	let lineIndex = 0
+	let oldLine = 0
+	let newLine = 0
+
+	for (const [firstChange, lastChange] of groups) {
+		const start = Math.max(0, firstChange - CONTEXT_LINES)
+		const end = Math.min(lines.length, lastChange + CONTEXT_LINES + 1)
+
+		// Count the lines before the hunk
+		for (; lineIndex < start; lineIndex++) {
+			const type = lines[lineIndex]?.type
+			oldLine += type === '+' ? 0 : 1
+			newLine += type === '-' ? 0 : 1
+		}
+
+		const hunk = lines.slice(start, end)
+		const oldCount = hunk.filter((line) => line.type !== '+').length
+		const newCount = hunk.filter((line) => line.type !== '-').length
+		diff += `@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@\n`
+		for (const { type, text } of hunk) {
+			diff += text.endsWith('\n')
+				? `${type}${text}`
+				: `${type}${text}\n\\ No newline at end of file\n`
+		}
+	}
+
+	return diff
+}
+
+/**
+ * Colors a unified diff for terminal output
+ *
+ * @param {string} diff - Unified diff
+ * @returns {string} Diff with ANSI colors for headers, hunk ranges and changed lines
+ */
+export function colorizeDiff(diff: string): string {
+	return diff
+		.split('\n')
+		.map((line) => {
+			if (
+				line.startsWith('diff ') ||
+				line.startsWith('--- ') ||
+				line.startsWith('+++ ')
+			) {
+				return `${COLORS.bold}${line}${COLORS.reset}`
+			}
+			if (line.startsWith('@@')) {
+				return `${COLORS.cyan}${line}${COLORS.reset}`
+			}
+			if (line.startsWith('+')) {
+				return `${COLORS.green}${line}${COLORS.reset}`
+			}
+			if (line.startsWith('-')) {
+				return `${COLORS.red}${line}${COLORS.reset}`
+			}
+			return line
+		})
+		.join('\n')
+}
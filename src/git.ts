@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Lists files changed in a git repository, for migrating only the
+ * files a branch or commit touches
+ */
+
+import { execFile } from 'node:child_process'
+import path from 'node:path'
+import { promisify } from 'node:util'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * @property {string} cwd - Directory inside the git repository
+ * @property {string} [since] - Ref to compare the working tree with, from where it branched off
+ * @property {boolean} [staged] - Whether to include files staged for commit
+ */
+export interface ChangedFilesOptions {
+	cwd: string
+	since?: string
+	staged?: boolean
+}
+
+/**
+ * Runs a git command and returns the NUL-separated paths it prints
+ */
+async function git(cwd: string, args: string[]): Promise<string[]> {
+	const { stdout } = await execFileAsync('git', args, {
+		cwd,
+		maxBuffer: 64 * 1024 * 1024
+	})
+	return stdout.split('\0').filter((line) => line.length > 0)
+}
+
+/**
+ * Lists files that were added, copied, modified or renamed
+ *
+ * With `since`, compares the working tree with the merge base of the ref, so changes
+ * that were made on the ref after branching off are not included, and adds untracked
+ * files. With `staged`, adds the files staged for commit. Deleted files are left out.
+ *
+ * @param {ChangedFilesOptions} options - Repository and changes to list
+ * @returns {Promise<string[]>} Absolute paths of the changed files
+ */
+export async function findChangedFiles({
+	cwd,
+	since,
+	staged = false
+}: ChangedFilesOptions): Promise<string[]> {
+	const [root = cwd] = (
+		await execFileAsync('git', ['rev-parse', '--show-toplevel'], { cwd })
+	).stdout.split('\n')
+
+	const files = new Set<string>()
+	const diffArgs = ['diff', '--name-only', '-z', '--diff-filter=ACMR']
+
+	if (since !== undefined) {
+		for (const file of await git(cwd, [...diffArgs, '--merge-base', since])) {
+			files.add(file)
+		}
+		for (const file of await git(root, [
+			'ls-files',
+			'--others',
+			'--exclude-standard',
+			'-z'
+		])) {
+			files.add(file)
+		}
+	}
+	if (staged) {
+		for (const file of await git(cwd, [...diffArgs, '--cached'])) {
+			files.add(file)
+		}
+	}
+
+	return [...files].map((file) => path.resolve(root, file))
+}
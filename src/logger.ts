@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Routes migration output through log levels, as text for terminals
+ * or as NDJSON for CI ingestion
+ */
+
+/**
+ * Most verbose level of messages to print, from `silent` (nothing) to `debug` (every file)
+ */
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug'
+
+/**
+ * Output format: text for terminals, or one JSON object per line
+ */
+export type LogFormat = 'text' | 'json'
+
+/**
+ * Structured fields of a log entry (file paths, counts, errors, ...)
+ */
+export type LogDetails = Record<string, unknown>
+
+/**
+ * Receives the output of a migration
+ *
+ * Library consumers can pass their own implementation through `Options.logger`.
+ */
+export interface Logger {
+	error(message: string, details?: LogDetails): void
+	warn(message: string, details?: LogDetails): void
+	info(message: string, details?: LogDetails): void
+	debug(message: string, details?: LogDetails): void
+	diff(message: string, details?: LogDetails): void
+	progress(label: string, current: number, total: number): void
+}
+
+/**
+ * @property {LogLevel} [level] - Most verbose level to print, `info` by default
+ * @property {LogFormat} [format] - Output format, `text` by default
+ */
+export interface LoggerOptions {
+	level?: LogLevel
+	format?: LogFormat
+}
+
+const LOG_LEVELS: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug']
+
+// Minimum time between progress updates in a terminal
+const PROGRESS_INTERVAL_MS = 100
+
+/**
+ * Converts errors in log details to plain objects, which JSON.stringify drops otherwise
+ */
+function serializeDetails(details: LogDetails): LogDetails {
+	return Object.fromEntries(
+		Object.entries(details).map(([key, value]) => [
+			key,
+			value instanceof Error
+				? { name: value.name, message: value.message, stack: value.stack }
+				: value
+		])
+	)
+}
+
+/**
+ * Creates a logger that prints to the console
+ *
+ * Text output prints progress to stderr when it is a terminal, and JSON output
+ * prints every entry as a line with `time`, `level` and `message` fields. Diffs
+ * are output the user asked for and printed at every level, as `info` entries.
+ *
+ * @param {LoggerOptions} options - Level and format of the output
+ * @returns {Logger} Logger for the migration
+ */
+export function createLogger({
+	level = 'info',
+	format = 'text'
+}: LoggerOptions = {}): Logger {
+	const maxLevel = LOG_LEVELS.indexOf(level)
+	const isEnabled = (entryLevel: LogLevel): boolean =>
+		LOG_LEVELS.indexOf(entryLevel) <= maxLevel
+
+	let isProgressShown = false
+	let lastProgressTime = 0
+
+	const clearProgress = (): void => {
+		if (isProgressShown) {
+			process.stderr.write('\r\u001b[K')
+			isProgressShown = false
+		}
+	}
+
+	const print = (
+		entryLevel: Exclude<LogLevel, 'silent'>,
+		message: string,
+		details?: LogDetails
+	): void => {
+		if (format === 'json') {
+			console.log(
+				JSON.stringify({
+					time: new Date().toISOString(),
+					level: entryLevel,
+					message: message.trim(),
+					...(details && serializeDetails(details))
+				})
+			)
+			return
+		}
+
+		clearProgress()
+		const error = details?.error
+		if (entryLevel === 'error') {
+			if (error === undefined) {
+				console.error(message)
+			} else {
+				console.error(`${message}:`, error)
+			}
+		} else if (entryLevel === 'warn') {
+			console.warn(`Warning: ${message}`)
+		} else {
+			console.log(message)
+		}
+	}
+
+	const log = (
+		entryLevel: Exclude<LogLevel, 'silent'>,
+		message: string,
+		details?: LogDetails
+	): void => {
+		if (isEnabled(entryLevel)) {
+			print(entryLevel, message, details)
+		}
+	}
+
+	return {
+		error: (message, details) => log('error', message, details),
+		warn: (message, details) => log('warn', message, details),
+		info: (message, details) => log('info', message, details),
+		debug: (message, details) => log('debug', message, details),
+		diff: (message, details) => print('info', message, details),
+		progress: (label, current, total) => {
+			if (format === 'json') {
+				log('debug', label, { current, total })
+				return
+			}
+			if (!isEnabled('info') || !process.stderr.isTTY) {
+				return
+			}
+
+			if (current >= total) {
+				clearProgress()
+				return
+			}
+			const now = Date.now()
+			if (now - lastProgressTime < PROGRESS_INTERVAL_MS) {
+				return
+			}
+			lastProgressTime = now
+			process.stderr.write(`\r\u001b[K${label} ${current}/${total}`)
+			isProgressShown = true
+		}
+	}
+}
@@ -17,43 +17,145 @@
 
 import { readFile, writeFile } from 'node:fs/promises'
 import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { Worker } from 'node:worker_threads'
 import _generate from '@babel/generator'
 import type { ParserOptions } from '@babel/parser'
 import { parse } from '@babel/parser'
-import type { NodePath } from '@babel/traverse'
+import type { Binding, NodePath } from '@babel/traverse'
 import _traverse from '@babel/traverse'
 import {
+	type CallExpression,
+	cloneNode,
+	type ExportAllDeclaration,
+	exportAllDeclaration,
+	expressionStatement,
+	type Expression,
 	type ExportDefaultDeclaration,
 	type ExportNamedDeclaration,
+	type ExportSpecifier,
+	exportNamedDeclaration,
+	exportNamespaceSpecifier,
+	exportSpecifier,
+	type File,
 	type ImportDeclaration,
-	type ImportDefaultSpecifier,
 	type ImportNamespaceSpecifier,
 	type ImportSpecifier,
 	importDeclaration,
+	importDefaultSpecifier,
+	importNamespaceSpecifier,
 	importSpecifier,
+	identifier,
+	isBinding,
 	isClassDeclaration,
+	isExportAllDeclaration,
+	isExportNamespaceSpecifier,
 	isExportSpecifier,
 	isFunctionDeclaration,
+	isArrowFunctionExpression,
+	isAwaitExpression,
+	isBlockStatement,
+	isCallExpression,
+	isFunction,
+	isFunctionExpression,
 	isIdentifier,
+	isImport,
 	isImportDefaultSpecifier,
 	isImportNamespaceSpecifier,
 	isImportSpecifier,
+	isJSXIdentifier,
+	isMemberExpression,
+	isObjectExpression,
+	isObjectPattern,
+	isObjectProperty,
+	isReturnStatement,
+	isSpreadElement,
+	isStringLiteral,
 	isTSEnumDeclaration,
 	isTSInterfaceDeclaration,
 	isTSTypeAliasDeclaration,
 	isVariableDeclaration,
+	jsxIdentifier,
+	type MemberExpression,
+	type Node,
+	type ObjectExpression,
+	type ObjectMethod,
+	type ObjectPattern,
+	type ObjectProperty,
+	type SourceLocation,
+	type Statement,
 	stringLiteral,
 	type VariableDeclarator
 } from '@babel/types'
 import fg from 'fast-glob'
 import micromatch from 'micromatch'
-import type { Options as MigrationOptions } from './options'
+import { colorizeDiff, createUnifiedDiff } from './diff'
+import { findChangedFiles } from './git'
+import { createLogger, type Logger } from './logger'
+import type {
+	ImportExtension,
+	ImportSortOrder,
+	Options as MigrationOptions,
+	PackageOptions
+} from './options'
+import {
+	addPackageExports,
+	createExportsEntries,
+	findExportedSubpath,
+	hasSubpathRestrictions,
+	getEntryPaths,
+	isEsModule,
+	type PackageJson,
+	type PackageTypeCache,
+	readPackageJson,
+	setPackageExports
+} from './package-json'
+import {
+	findScriptBlocks,
+	getScriptSource,
+	SCRIPT_BLOCK_EXTENSIONS
+} from './script-blocks'
+import {
+	applyTextEdits,
+	createRemovalEdit,
+	getIndentation,
+	getLineBreak,
+	type TextEdit
+} from './text-edits'
+import {
+	createTsConfigCache,
+	findPathAliases,
+	findSourcePaths,
+	type PathAlias,
+	resolvePathAlias,
+	type TsConfigCache,
+	toPathAliasSpecifier
+} from './tsconfig'
+import { findWorkspacePackages } from './workspaces'
 
 // @ts-expect-error
 const generate: typeof _generate = _generate.default || _generate
 // @ts-expect-error
 const traverse: typeof _traverse = _traverse.default || _traverse
 
+// Extensions of the modules that are scanned for exports and imports
+const MODULE_EXTENSIONS = [
+	'.ts',
+	'.tsx',
+	'.mts',
+	'.cts',
+	'.js',
+	'.jsx',
+	'.mjs',
+	'.cjs'
+]
+const MODULE_GLOB = `**/*.{${MODULE_EXTENSIONS.map((extension) => extension.slice(1)).join(',')}}`
+// Target files also include components and docs that import in script blocks
+const TARGET_GLOB = `**/*.{${[...MODULE_EXTENSIONS, ...SCRIPT_BLOCK_EXTENSIONS].map((extension) => extension.slice(1)).join(',')}}`
+
+// Parsed files that are kept in memory, as ASTs of large monorepos do not all fit
+const MAX_PARSED_FILES = 500
+
 // Common Babel configuration for parsing TypeScript files
 const BABEL_CONFIG: ParserOptions = {
 	sourceType: 'module',
@@ -86,6 +188,27 @@ const BABEL_CONFIG: ParserOptions = {
 	]
 }
 
+// Test framework globals whose module mocks are migrated
+const MOCK_FRAMEWORKS = new Set(['jest', 'vi'])
+
+// Methods that register or remove the mock of a module
+const MOCK_METHODS = new Set([
+	'mock',
+	'doMock',
+	'unmock',
+	'doUnmock',
+	'dontMock',
+	'setMock'
+])
+
+// Methods that load the actual or mocked module, by whether they return a promise
+const MOCK_LOADER_METHODS = new Map([
+	['requireActual', false],
+	['requireMock', false],
+	['importActual', true],
+	['importMock', true]
+])
+
 /**
  * @property {string} source - Source file path containing exports
  * @property {string[]} exports - Array of exported names from the file
@@ -94,7 +217,11 @@ const BABEL_CONFIG: ParserOptions = {
  * @property {Record<string, string>} [exportSources] - Map of export names to their source files
  * @property {string[]} [defaultExportNames] - Names of entities exported as default
  * @property {boolean} [isBarrelFile] - Whether this file is a barrel file
- * @property {Record<string, string[]>} [exportFiles] - Map of export names to all files that export them
+ * @property {Record<string, string[]>} [ambiguousExports] - Map of names that `export *` re-exports provide from several files to those files
+ * @property {string[]} [namespaceExports] - Names that are namespace re-exports (`export * as ns from`)
+ * @property {string[]} [typeExports] - Names that only exist as types (interfaces, type aliases and `export type`)
+ * @property {string[]} [defaultExports] - Names that are the default export of the file that declares them (`export { default as Button } from`), and `default` if the file's default export is declared in another file
+ * @property {string[]} [externalStarSources] - Packages the file forwards with `export * from`, itself or through the files it star re-exports
  */
 interface ExportInfo {
 	source: string
@@ -104,13 +231,55 @@ interface ExportInfo {
 	exportSources?: Record<string, string>
 	defaultExportNames?: string[]
 	isBarrelFile?: boolean
-	exportFiles?: Record<string, string[]>
+	ambiguousExports?: Record<string, string[]>
+	namespaceExports?: string[]
+	typeExports?: string[]
+	defaultExports?: string[]
+	externalStarSources?: string[]
+}
+
+/**
+ * Relative re-exports of a single file, collected before they can be resolved
+ * @property {Record<string, { source: string; imported: string }>} named - Map of export names to the re-exported file and name
+ * @property {Record<string, string>} namespaces - Map of namespace export names to the re-exported file
+ * @property {string[]} stars - Files re-exported with `export * from`
+ * @property {string[]} externalStars - Packages re-exported with `export * from`
+ */
+interface FileReExports {
+	named: Record<string, { source: string; imported: string }>
+	namespaces: Record<string, string>
+	stars: string[]
+	externalStars: string[]
+}
+
+/**
+ * @property {string} source - File that declares the export
+ * @property {boolean} [isNamespace] - Whether the export is a namespace of the file
+ * @property {boolean} [isType] - Whether the export only exists as a type
+ * @property {boolean} [isDefault] - Whether the export is the default export of the file
+ * @property {string[]} [ambiguousSources] - Files that `export *` re-exports provide the name from, if they are not the same file
+ */
+interface ResolvedExport {
+	source: string
+	isNamespace?: boolean
+	isType?: boolean
+	isDefault?: boolean
+	ambiguousSources?: string[]
 }
 
-interface MigrationStats {
+/**
+ * Counters of a migration, totalled over all source packages
+ */
+export interface MigrationStats extends PackageStats {
 	sourcePackagesFound: number
 	sourcePackagesProcessed: number
 	sourcePackagesSkipped: number
+}
+
+/**
+ * Counters of a single source package
+ */
+export interface PackageStats {
 	sourceFilesFound: number
 	sourceFilesWithExports: number
 	sourceFilesSkipped: number
@@ -121,34 +290,356 @@ interface MigrationStats {
 	noChangesNeeded: number
 	targetFilesSkipped: number
 	importsMigrated: number
+	exportsEntriesAdded: number
+}
+
+// Counters that are added up over all source packages
+const PACKAGE_STATS_KEYS: Array<keyof PackageStats> = [
+	'sourceFilesFound',
+	'sourceFilesWithExports',
+	'sourceFilesSkipped',
+	'exportsFound',
+	'targetFilesFound',
+	'targetFilesProcessed',
+	'importsUpdated',
+	'noChangesNeeded',
+	'targetFilesSkipped',
+	'importsMigrated',
+	'exportsEntriesAdded'
+]
+
+/**
+ * Creates counters for a source package
+ */
+function createPackageStats(): PackageStats {
+	return {
+		sourceFilesFound: 0,
+		sourceFilesWithExports: 0,
+		sourceFilesSkipped: 0,
+		exportsFound: 0,
+		targetFilesFound: 0,
+		targetFilesProcessed: 0,
+		importsUpdated: 0,
+		noChangesNeeded: 0,
+		targetFilesSkipped: 0,
+		importsMigrated: 0,
+		exportsEntriesAdded: 0
+	}
+}
+
+/**
+ * @property {string} filePath - Path of the file
+ * @property {'source' | 'target'} kind - Whether the file is in a source package or a target file
+ * @property {'ignored' | 'error'} reason - Whether the file matches an ignore pattern or could not be processed
+ */
+export interface SkippedFile {
+	filePath: string
+	kind: 'source' | 'target'
+	reason: 'ignored' | 'error'
+}
+
+/**
+ * Records a skipped file, unless it was recorded before for another source package
+ */
+function addSkippedFile(
+	skippedFiles: SkippedFile[] | undefined,
+	skippedFile: SkippedFile
+): void {
+	if (
+		!skippedFiles?.some(
+			({ filePath, kind }) =>
+				filePath === skippedFile.filePath && kind === skippedFile.kind
+		)
+	) {
+		skippedFiles?.push(skippedFile)
+	}
+}
+
+/**
+ * @property {string} filePath - Path of the file importing the name
+ * @property {string} name - Name that could not be resolved to a source file
+ * @property {string} source - Module specifier the name is imported from
+ */
+export interface UnresolvedName {
+	filePath: string
+	name: string
+	source: string
+}
+
+/**
+ * @property {string} filePath - Path of the file importing the name
+ * @property {string} name - Name that several files of the package export
+ * @property {string} source - Module specifier the name is imported from
+ * @property {string[]} candidates - Package-relative paths of the files the name could be imported from
+ */
+export interface AmbiguousName extends UnresolvedName {
+	candidates: string[]
+}
+
+/**
+ * Content and ASTs of a parsed file
+ * @property {string} content - Content of the file
+ * @property {File[]} asts - Babel ASTs of the modules of the file: the file itself, or each of its script blocks
+ */
+interface ParsedFile {
+	content: string
+	asts: File[]
+}
+
+/**
+ * Parsed files by absolute path, shared between packages so each file is parsed once
+ *
+ * Entries are removed when a migration modifies their AST, and the least recently used
+ * entries when there are more than `MAX_PARSED_FILES`.
+ */
+type ParseCache = Map<string, Promise<ParsedFile>>
+
+/**
+ * Change of a file over all source packages, kept to show a single diff of it at the end
+ * @property {string} original - Content of the file before the migration
+ * @property {string} output - Content of the file after the changes so far
+ */
+interface PendingChange {
+	original: string
+	output: string
+}
+
+/**
+ * Pending changes by absolute path
+ *
+ * In dry-run mode, the changes of a file are not written, so later packages read them from here.
+ */
+type PendingChanges = Map<string, PendingChange>
+
+/**
+ * Result of scanning a target file for the module specifiers it imports
+ * @property {string} file - Absolute path to the file
+ * @property {string[]} [sources] - Module specifiers the file imports, re-exports, dynamically imports or mocks
+ * @property {string} [error] - Why the file could not be read or parsed
+ */
+export interface ScanResult {
+	file: string
+	sources?: string[]
+	error?: string
+}
+
+/**
+ * Module specifiers of all target files, from a single scan shared between packages
+ * @property {string[]} files - Absolute paths of the target files
+ * @property {Map<string, string[]>} sources - Module specifiers imported by each file that could be parsed
+ */
+interface TargetScan {
+	files: string[]
+	sources: Map<string, string[]>
+}
+
+interface ScanTargetFilesParams {
+	targetPath: string
+	changedFiles?: Set<string>
+	concurrency?: number
+	skippedFiles?: SkippedFile[]
+	parseCache?: ParseCache
+	packageNames?: string[]
+	logger?: Logger
 }
 
 interface FindExportsParams {
 	packagePath: string
 	ignoreSourceFiles?: string[]
-	stats?: MigrationStats
+	stats?: PackageStats
+	skippedFiles?: SkippedFile[]
+	parseCache?: ParseCache
+	logger?: Logger
 }
 
 interface FindImportsParams {
 	packageName: string
 	targetPath: string
 	ignoreTargetFiles?: string[]
-	stats?: MigrationStats
+	stats?: PackageStats
+	skippedFiles?: SkippedFile[]
+	packagePath?: string
+	entryFile?: string
+	exports?: ExportInfo[]
+	relativeImports?: boolean
+	tsConfigCache?: TsConfigCache
+	targetScan?: TargetScan
+	logger?: Logger
+}
+
+/**
+ * @property {string} packageName - Name of the source package
+ * @property {string} [packagePath] - Absolute path to the source package
+ * @property {PackageJson} [packageJson] - package.json of the source package
+ * @property {string} [entryFile] - Package-relative path of the file that is the public entry of the package
+ * @property {Set<string>} barrelFiles - Package-relative paths of barrel files in the package
+ * @property {Set<string>} [packageFiles] - Package-relative paths of all files in the package, to find the files subpath imports name
+ * @property {PathAlias[]} aliases - tsconfig path aliases of the importing file
+ * @property {string} [importerFile] - Package-relative path of the importing file, if it is inside the package and uses relative imports
+ * @property {Map<string, string>} [requiredSubpaths] - Collects subpaths to add to package.json `exports`, when generating them
+ */
+interface PackageImportContext {
+	packageName: string
+	packagePath?: string
+	packageJson?: PackageJson
+	entryFile?: string
+	barrelFiles: Set<string>
+	packageFiles?: Set<string>
+	aliases: PathAlias[]
+	importerFile?: string
+	requiredSubpaths?: Map<string, string>
+}
+
+/**
+ * @property {PathAlias} [alias] - Path alias the import goes through, if it does not use the package name
+ * @property {string} [barrelFile] - Package-relative path of the barrel file the import resolves to, if known
+ * @property {string} [packageFile] - Package-relative path of the file a subpath import names, if it is not a barrel file
+ * @property {boolean} [isRelative] - Whether the import is a relative import inside the package
+ */
+interface PackageImportMatch {
+	alias?: PathAlias
+	barrelFile?: string
+	packageFile?: string
+	isRelative?: boolean
 }
 
+/**
+ * @property {boolean} [isNamespace] - Whether to import the module namespace instead of a name
+ * @property {boolean} [isDefault] - Whether to import the default export of the module instead of a name
+ * @property {boolean} [isTypeOnly] - Whether the specifier came from an `import type` declaration
+ * @property {boolean} [isType] - Whether the specifier has an inline `type` modifier
+ */
 interface ImportSpec {
 	local: ImportSpecifier['local']
 	imported: ImportSpecifier['imported']
+	isNamespace?: boolean
+	isDefault?: boolean
+	isTypeOnly?: boolean
+	isType?: boolean
+}
+
+/**
+ * @property {boolean} [isNamespace] - Whether to re-export the module namespace instead of a name
+ * @property {boolean} [isDefault] - Whether to re-export the default export of the module instead of a name
+ * @property {boolean} [isTypeOnly] - Whether the specifier came from an `export type` declaration
+ * @property {boolean} [isType] - Whether the specifier has an inline `type` modifier
+ */
+interface ReExportSpec {
+	local: ExportSpecifier['local']
+	exported: ExportSpecifier['exported']
+	isNamespace?: boolean
+	isDefault?: boolean
+	isTypeOnly?: boolean
+	isType?: boolean
+}
+
+/**
+ * @property {string} sourcePath - Module specifier to import the name from
+ * @property {boolean} [isNamespace] - Whether the name is a namespace of the module
+ * @property {boolean} [isDefault] - Whether the name is the default export of the module
+ * @property {boolean} [isDeclaringFile] - Whether the name resolved to the file that declares it
+ */
+interface ResolvedName {
+	sourcePath: string
+	isNamespace?: boolean
+	isDefault?: boolean
+	isDeclaringFile?: boolean
+}
+
+/**
+ * @property {NodePath[]} paths - Member accesses to replace with the named import
+ * @property {boolean} isType - Whether the member is only used in type positions
+ */
+interface NamespaceMember {
+	paths: NodePath[]
+	isType: boolean
+}
+
+/**
+ * @property {string[]} names - Names read from the module
+ * @property {NodePath<VariableDeclarator>} [declarator] - Declaration destructuring the module, which can be split per file
+ * @property {ObjectPattern} [pattern] - Destructuring pattern of the declaration
+ */
+interface DynamicImportUsage {
+	names: string[]
+	declarator?: NodePath<VariableDeclarator>
+	pattern?: ObjectPattern
+}
+
+/**
+ * A module specifier rewrite, pending or applied
+ * @property {string} filePath - Path of the file containing the import
+ * @property {number} line - Line of the specifier (1-based)
+ * @property {number} column - Column of the specifier (1-based)
+ * @property {string} name - Imported name, or the mock call (e.g. `vi.mock`) for module mocks
+ * @property {string} source - Original module specifier
+ * @property {string} target - Module specifier the name is imported from after the rewrite
+ */
+export interface ImportRewrite {
+	filePath: string
+	line: number
+	column: number
+	name: string
+	source: string
+	target: string
+}
+
+/**
+ * @property {string} name - Name of the source package
+ * @property {string} path - Path to the source package
+ * @property {PackageStats} stats - Counters of the package
+ */
+export interface PackageReport {
+	name: string
+	path: string
+	stats: PackageStats
+}
+
+/**
+ * Result of a migration
+ * @property {MigrationStats} stats - Counters totalled over all source packages
+ * @property {PackageReport[]} packages - Source packages and their counters
+ * @property {ImportRewrite[]} rewrites - Module specifier rewrites, applied or (in dry-run and check mode) pending
+ * @property {UnresolvedName[]} unresolved - Imported names that could not be resolved to a source file
+ * @property {AmbiguousName[]} ambiguous - Imported names that several files export, where nothing decides which one to import from
+ * @property {SkippedFile[]} skippedFiles - Files that were ignored or could not be processed
+ * @property {string[]} warnings - Warnings about imports that need manual follow-up
+ */
+export interface MigrationReport {
+	stats: MigrationStats
+	packages: PackageReport[]
+	rewrites: ImportRewrite[]
+	unresolved: UnresolvedName[]
+	ambiguous: AmbiguousName[]
+	skippedFiles: SkippedFile[]
+	warnings: string[]
 }
 
 interface UpdateImportsParams {
 	filePath: string
 	packageName: string
+	packagePath?: string
+	packageJson?: PackageJson
+	entryFile?: string
+	requiredSubpaths?: Map<string, string>
+	tsConfigCache?: TsConfigCache
 	exports: ExportInfo[]
-	includeExtension?: boolean
+	importExtension?: ImportExtension
+	packageTypeCache?: PackageTypeCache
+	relativeImports?: boolean
+	pinnedExports?: Record<string, string>
+	sortImports?: ImportSortOrder
+	mergeImports?: boolean
 	dryRun?: boolean
+	pendingChanges?: PendingChanges
 	warnings?: string[]
-	stats?: MigrationStats
+	rewrites?: ImportRewrite[]
+	unresolved?: UnresolvedName[]
+	ambiguous?: AmbiguousName[]
+	skippedFiles?: SkippedFile[]
+	stats?: PackageStats
+	parseCache?: ParseCache
+	logger?: Logger
 }
 
 /**
@@ -188,212 +679,806 @@ function getExportNames(
 	return []
 }
 
+/**
+ * Parses the modules of a file
+ *
+ * Each script block of Vue, Svelte, Astro and MDX files is a module of its own, like a
+ * frontmatter script on the server and a `<script>` in the browser. Blocks are parsed at
+ * their offsets in the file, so that edits of their ASTs apply to the file as it is.
+ * Astro frontmatter may return a response, as it runs as the body of a function.
+ *
+ * @param {string} filePath - Path to the file
+ * @param {string} content - Content of the file
+ * @returns {File[]} Babel ASTs of the modules
+ */
+function parseModules(filePath: string, content: string): File[] {
+	const blocks = findScriptBlocks(filePath, content)
+	if (!blocks) {
+		return [parse(content, BABEL_CONFIG)]
+	}
+	return blocks.map((block) =>
+		parse(getScriptSource(content, block), {
+			...BABEL_CONFIG,
+			allowReturnOutsideFunction: block.isFrontmatter ?? false
+		})
+	)
+}
+
+/**
+ * Reads and parses a file, reusing the cached result when the file was parsed before
+ *
+ * @param {string} filePath - Absolute path to the file
+ * @param {ParseCache} [parseCache] - Cache of parsed files
+ * @param {PendingChanges} [pendingChanges] - Changes that are read instead of the file
+ * @returns {Promise<ParsedFile>} Content and ASTs of the file
+ */
+function parseFile(
+	filePath: string,
+	parseCache?: ParseCache,
+	pendingChanges?: PendingChanges
+): Promise<ParsedFile> {
+	const cached = parseCache?.get(filePath)
+	if (cached) {
+		// Maps keep insertion order, so the least recently used entry comes first
+		parseCache?.delete(filePath)
+		parseCache?.set(filePath, cached)
+		return cached
+	}
+
+	const pendingOutput = pendingChanges?.get(filePath)?.output
+	const content =
+		pendingOutput === undefined
+			? readFile(filePath, 'utf-8')
+			: Promise.resolve(pendingOutput)
+	const parsed = content.then((content) => ({
+		content,
+		asts: parseModules(filePath, content)
+	}))
+	if (parseCache) {
+		cacheParsedFile(parseCache, filePath, parsed)
+	}
+	return parsed
+}
+
+/**
+ * Adds a parsed file to the cache, removing the least recently used entries over `MAX_PARSED_FILES`
+ */
+function cacheParsedFile(
+	parseCache: ParseCache,
+	filePath: string,
+	parsed: Promise<ParsedFile>
+): void {
+	parseCache.set(filePath, parsed)
+	for (const cachedPath of parseCache.keys()) {
+		if (parseCache.size <= MAX_PARSED_FILES) {
+			break
+		}
+		parseCache.delete(cachedPath)
+	}
+}
+
+/**
+ * Checks whether module specifiers import one of the packages, by name or subpath
+ */
+function importsPackage(sources: string[], packageNames: string[]): boolean {
+	return sources.some((source) =>
+		packageNames.some(
+			(name) => source === name || source.startsWith(`${name}/`)
+		)
+	)
+}
+
 /**
  * Checks if a file is a barrel file by analyzing its exports
  *
  * @param {string} filePath - Path to the file to check
+ * @param {Logger} logger - Logger for read and parse errors
+ * @param {ParseCache} [parseCache] - Cache of parsed files
  * @returns {Promise<boolean>} Whether the file is a barrel file
  */
-async function isBarrelFile(filePath: string): Promise<boolean> {
+async function isBarrelFile(
+	filePath: string,
+	logger: Logger,
+	parseCache?: ParseCache
+): Promise<boolean> {
 	try {
-		const content = await readFile(filePath, 'utf-8')
-		const ast = parse(content, BABEL_CONFIG)
+		const { asts } = await parseFile(filePath, parseCache)
 		let hasReExports = false
 
-		traverse(ast, {
-			ExportNamedDeclaration(path: NodePath<ExportNamedDeclaration>) {
-				if (path.node.source) {
+		for (const ast of asts) {
+			traverse(ast, {
+				ExportNamedDeclaration(path: NodePath<ExportNamedDeclaration>) {
+					if (path.node.source) {
+						hasReExports = true
+					}
+				},
+				ExportAllDeclaration() {
 					hasReExports = true
 				}
-			}
-		})
+			})
+		}
 
 		// A barrel file typically has re-exports and may or may not have direct exports
 		return hasReExports
 	} catch (error) {
-		console.error(`Error checking if ${filePath} is a barrel file:`, error)
+		logger.error(`Error checking if ${filePath} is a barrel file`, {
+			filePath,
+			error
+		})
 		return false
 	}
 }
 
 /**
- * Recursively finds all exports in a package by scanning all TypeScript files
+ * Resolves a package-relative module path to a file, trying extensions and index files
  *
- * This function:
- * 1. Scans all .ts and .tsx files in the package
- * 2. Identifies both named exports and default exports
- * 3. Skips re-exports to avoid circular dependencies
- * 4. Filters out ignored files based on patterns
- * 5. Handles barrel files by tracking their re-exports
+ * @param {string} basePath - Package-relative module path (e.g. `src/button`)
+ * @param {Set<string>} files - Package-relative paths of the files to resolve to
+ * @returns {string | undefined} Package-relative path of the resolved file
+ */
+function resolveModulePath(
+	basePath: string,
+	files: Set<string>
+): string | undefined {
+	// ES modules import `.ts` files as `.js`, `.mts` files as `.mjs` and `.cts` files as `.cjs`
+	const withoutExtension = basePath.replace(/\.[cm]?jsx?$/, '')
+	const indexPrefix = basePath && basePath !== '.' ? `${basePath}/` : ''
+	const candidates = [
+		basePath,
+		...MODULE_EXTENSIONS.map((extension) => `${withoutExtension}${extension}`),
+		...MODULE_EXTENSIONS.map((extension) => `${indexPrefix}index${extension}`)
+	]
+	return candidates.find((candidate) => files.has(candidate))
+}
+
+/**
+ * Resolves a relative module specifier to a file in the package
  *
- * @param {FindExportsParams} params - Parameters for finding exports
- * @returns {Promise<ExportInfo[]>} Array of export information, including source file and exported names
+ * @param {string} fromFile - Package-relative path of the importing file
+ * @param {string} specifier - Relative module specifier (e.g. `./button`)
+ * @param {Set<string>} files - Package-relative paths of all files in the package
+ * @returns {string | undefined} Package-relative path of the resolved file
  */
-async function findExports({
-	packagePath,
-	ignoreSourceFiles = [],
-	stats
-}: FindExportsParams): Promise<ExportInfo[]> {
-	const exports: ExportInfo[] = []
-	const barrelFiles = new Set<string>()
-	const exportFiles: Record<string, string[]> = {}
+function resolveRelativeModule(
+	fromFile: string,
+	specifier: string,
+	files: Set<string>
+): string | undefined {
+	return resolveModulePath(
+		path.posix.join(path.posix.dirname(fromFile), specifier),
+		files
+	)
+}
 
-	console.log(`Scanning for TypeScript and JavaScript files in: ${packagePath}`)
-	const allFiles = await fg('**/*.{ts,tsx,js,jsx}', {
-		cwd: packagePath,
-		ignore: ['**/node_modules/**', '**/dist/**', '**/build/**']
-	})
-	console.log(`Found ${allFiles.length} files`)
+/**
+ * Finds the file that is the public entry of a package
+ *
+ * Tries the paths package.json declares for the package root, mapping build outputs
+ * back to their source files through the tsconfig `outDir` and `rootDir`, and then
+ * `src/index` and `index`.
+ *
+ * @param {string} packagePath - Absolute path to the package
+ * @param {PackageJson} packageJson - package.json of the package
+ * @param {ExportInfo[]} exports - Export information of the package
+ * @param {TsConfigCache} [tsConfigCache] - Cache of loaded tsconfig files
+ * @returns {Promise<string | undefined>} Package-relative path of the entry file
+ */
+async function findPackageEntry(
+	packagePath: string,
+	packageJson: PackageJson,
+	exports: ExportInfo[],
+	tsConfigCache?: TsConfigCache
+): Promise<string | undefined> {
+	const files = new Set(exports.map((exportInfo) => exportInfo.source))
 
-	if (stats) {
-		stats.sourceFilesFound = allFiles.length
-	}
+	for (const entryPath of getEntryPaths(packageJson)) {
+		const entryFile = resolveModulePath(entryPath, files)
+		if (entryFile) {
+			return entryFile
+		}
 
-	// First pass: identify barrel files
-	for (const file of allFiles) {
-		const fullPath = path.join(packagePath, file)
-		if (await isBarrelFile(fullPath)) {
-			barrelFiles.add(file)
-			console.log(`Identified barrel file: ${file}`)
+		const sourcePaths = tsConfigCache
+			? await findSourcePaths(path.join(packagePath, entryPath), tsConfigCache)
+			: []
+		for (const sourcePath of sourcePaths) {
+			const sourceFile = getPackageFile(sourcePath, packagePath)
+			const resolvedFile =
+				sourceFile !== undefined && resolveModulePath(sourceFile, files)
+			if (resolvedFile) {
+				return resolvedFile
+			}
 		}
 	}
 
-	// Second pass: process all files
-	for (const file of allFiles) {
-		// Mark files that match ignore patterns but still process them
-		const isIgnored = ignoreSourceFiles.some((pattern) =>
-			micromatch.isMatch(file, pattern)
+	return resolveModulePath('src', files) ?? resolveModulePath('', files)
+}
+
+/**
+ * Finds the file of a package a subpath refers to
+ *
+ * Subpaths are looked up next to package.json and in `src`, and the package
+ * root is its entry file.
+ *
+ * @param {string} subpath - Subpath of the package without leading `/` (empty for the package root)
+ * @param {Set<string>} files - Package-relative paths of the files to find (e.g. the barrel files of the package)
+ * @param {string} [entryFile] - Package-relative path of the entry file of the package
+ * @returns {string | undefined} Package-relative path of the file
+ */
+function findPackageModule(
+	subpath: string,
+	files: Set<string>,
+	entryFile?: string
+): string | undefined {
+	if (!subpath) {
+		return entryFile !== undefined && files.has(entryFile)
+			? entryFile
+			: undefined
+	}
+
+	for (const candidate of [subpath, `src/${subpath}`]) {
+		const file = resolveModulePath(
+			path.posix.normalize(candidate).replace(/^\.\/?/, ''),
+			files
 		)
-		if (isIgnored) {
-			console.log(`File matches ignore pattern but will be preserved: ${file}`)
-			if (stats) {
-				stats.sourceFilesSkipped++
-			}
+		if (file) {
+			return file
 		}
+	}
+	return undefined
+}
 
-		const fullPath = path.join(packagePath, file)
-		console.log(`\nProcessing file: ${file}`)
-		const content = await readFile(fullPath, 'utf-8')
+/**
+ * Checks whether a module specifier imports from the source package
+ *
+ * Matches the package name and its subpaths, tsconfig path aliases that
+ * resolve to a barrel file inside the package and, for files inside the package
+ * that use relative imports, relative imports of its barrel files.
+ *
+ * @param {string} importSource - Module specifier of the import
+ * @param {PackageImportContext} context - Source package and aliases of the importing file
+ * @returns {PackageImportMatch | undefined} Match details, or undefined if the import is unrelated
+ */
+function matchPackageImport(
+	importSource: string,
+	{
+		packageName,
+		packagePath,
+		entryFile,
+		barrelFiles,
+		packageFiles,
+		aliases,
+		importerFile
+	}: PackageImportContext
+): PackageImportMatch | undefined {
+	if (
+		importSource === packageName ||
+		importSource.startsWith(`${packageName}/`)
+	) {
+		const subpath = importSource.slice(packageName.length + 1)
+		const barrelFile = findPackageModule(subpath, barrelFiles, entryFile)
+		if (barrelFile) {
+			return { barrelFile }
+		}
+		const packageFile =
+			subpath && packageFiles
+				? findPackageModule(subpath, packageFiles)
+				: undefined
+		return packageFile ? { packageFile } : {}
+	}
+	// Barrel files keep re-exporting the barrel files they are built from
+	if (
+		importerFile !== undefined &&
+		importSource.startsWith('.') &&
+		!barrelFiles.has(importerFile)
+	) {
+		const barrelFile = resolveRelativeModule(
+			importerFile,
+			importSource,
+			barrelFiles
+		)
+		return barrelFile ? { barrelFile, isRelative: true } : undefined
+	}
+	if (!packagePath) {
+		return undefined
+	}
 
-		try {
-			const ast = parse(content, BABEL_CONFIG)
-			const fileExports: string[] = []
-			const reExports: Record<string, string> = {}
-			const fileExportSources: Record<string, string> = {}
-			const defaultExportNames: string[] = []
+	const aliasMatch = resolvePathAlias(importSource, aliases)
+	for (const aliasPath of aliasMatch?.paths ?? []) {
+		const relativePath = path.relative(packagePath, aliasPath)
+		if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+			continue
+		}
+		const posixPath = relativePath.split(path.sep).join('/')
+		const barrelFile = resolveModulePath(posixPath, barrelFiles)
+		if (aliasMatch && barrelFile) {
+			return { alias: aliasMatch.alias, barrelFile }
+		}
+	}
+	return undefined
+}
 
-			traverse(ast, {
-				ExportNamedDeclaration(nodePath: NodePath<ExportNamedDeclaration>) {
-					// Handle re-exports from external packages
-					if (nodePath.node.source) {
-						const sourceValue = nodePath.node.source.value
-						if (
-							sourceValue.includes('node_modules') ||
-							!sourceValue.startsWith('.')
-						) {
-							// Extract export names and their original source
-							nodePath.node.specifiers.forEach((specifier) => {
-								if (isExportSpecifier(specifier)) {
-									const exported = specifier.exported
-									const exportName = isIdentifier(exported)
-										? exported.name
-										: exported.value
-									reExports[exportName] = sourceValue
-									fileExports.push(exportName)
-									fileExportSources[exportName] = file
+/**
+ * Applies an extension policy to the package-relative path of a source file
+ */
+function applyImportExtension(
+	sourceFile: string,
+	importExtension: ImportExtension
+): string {
+	switch (importExtension) {
+		case 'none':
+			return sourceFile.replace(/\.[^/.]+$/, '')
+		case 'js-emitted':
+			return sourceFile.replace(/\.([cm]?)[jt]sx?$/, '.$1js')
+		default:
+			return sourceFile
+	}
+}
 
-									// Track all files that export this symbol
-									if (!exportFiles[exportName]) {
-										exportFiles[exportName] = []
-									}
-									exportFiles[exportName].push(file)
-								}
-							})
-							return
-						}
-					}
+/**
+ * Creates the direct import path of a source file
+ *
+ * Files inside the package that use relative imports import the file by its path
+ * relative to them. Imports that went through a tsconfig path alias are rewritten to an alias-relative
+ * path when a wildcard alias reaches the file, and to the package name otherwise.
+ * Packages with an `exports` map or `typesVersions` are imported through the subpath
+ * that exposes the file. When generating exports, files without such a subpath are
+ * imported by their path and recorded in `requiredSubpaths`.
+ *
+ * @param {string} sourceFile - Package-relative path of the file to import
+ * @param {PackageImportContext} context - Source package and aliases of the importing file
+ * @param {ImportExtension} importExtension - Extension policy for the path
+ * @param {PathAlias} [alias] - Path alias the original import went through
+ * @returns {string | undefined} Module specifier for the file, or undefined if the package does not expose it
+ */
+function getDirectImportPath(
+	sourceFile: string,
+	{
+		packageName,
+		packagePath,
+		packageJson,
+		aliases,
+		importerFile,
+		requiredSubpaths
+	}: PackageImportContext,
+	importExtension: ImportExtension,
+	alias?: PathAlias
+): string | undefined {
+	const importFile = applyImportExtension(sourceFile, importExtension)
 
-					// Handle variable declarations with exports
-					if (nodePath.node.declaration) {
-						const exportNames = getExportNames(nodePath.node.declaration)
-						if (exportNames.length > 0) {
-							fileExports.push(...exportNames)
-							exportNames.forEach((name) => {
-								fileExportSources[name] = file
+	if (importerFile !== undefined) {
+		const relativePath = path.posix.relative(
+			path.posix.dirname(importerFile),
+			importFile
+		)
+		return relativePath.startsWith('.') ? relativePath : `./${relativePath}`
+	}
+
+	const aliasSpecifier =
+		alias &&
+		packagePath &&
+		toPathAliasSpecifier(path.join(packagePath, importFile), aliases, alias)
+
+	if (aliasSpecifier) {
+		return aliasSpecifier
+	}
+
+	if (packageJson && hasSubpathRestrictions(packageJson)) {
+		const subpath = findExportedSubpath(packageJson, sourceFile)
+		if (subpath === undefined) {
+			if (!requiredSubpaths || !packageJson.exports) {
+				return undefined
+			}
+			requiredSubpaths.set(`./${importFile}`, sourceFile)
+			return `${packageName}/${importFile}`
+		}
+		return subpath ? `${packageName}/${subpath}` : packageName
+	}
+
+	return `${packageName}/${importFile}`
+}
+
+/**
+ * Returns the package-relative path of a file, or undefined if it is outside the package
+ */
+function getPackageFile(
+	filePath: string,
+	packagePath?: string
+): string | undefined {
+	if (!packagePath) {
+		return undefined
+	}
+	const relativePath = path.relative(packagePath, filePath)
+	return relativePath.startsWith('..') || path.isAbsolute(relativePath)
+		? undefined
+		: relativePath.split(path.sep).join('/')
+}
+
+/**
+ * Collects the package-relative paths of barrel files from export information
+ */
+function getBarrelFiles(exports: ExportInfo[]): Set<string> {
+	return new Set(
+		exports
+			.filter((exportInfo) => exportInfo.isBarrelFile)
+			.map((exportInfo) => exportInfo.source)
+	)
+}
+
+/**
+ * Resolves every name a file exports to the file that declares it
+ *
+ * Follows named re-exports, `export * from` and `export * as ns from` through
+ * chains of barrel files. Circular re-exports are cut off at the first repeat.
+ * Names that several `export *` re-exports provide from different files are
+ * ambiguous, as modules do not export them at all.
+ * The default export is resolved under the `default` key, and followed through
+ * `export { default } from` and `export { default as Button } from`.
+ *
+ * @param {string} file - Package-relative path of the file
+ * @param {Map<string, ExportInfo>} exportsByFile - Export information by file
+ * @param {Map<string, FileReExports>} reExportsByFile - Relative re-exports by file
+ * @param {Set<string>} [visiting] - Files on the current resolution path
+ * @returns {Map<string, ResolvedExport>} Map of export names to their declaring file
+ */
+function resolveModuleExports(
+	file: string,
+	exportsByFile: Map<string, ExportInfo>,
+	reExportsByFile: Map<string, FileReExports>,
+	visiting: Set<string> = new Set()
+): Map<string, ResolvedExport> {
+	const resolved = new Map<string, ResolvedExport>()
+	if (visiting.has(file)) {
+		return resolved
+	}
+	visiting.add(file)
+
+	const exportInfo = exportsByFile.get(file)
+	const reExports = reExportsByFile.get(file)
+
+	for (const name of exportInfo?.exports ?? []) {
+		const isOwnDefault =
+			exportInfo?.defaultExportNames?.includes(name) ||
+			(name === 'default' && !reExports?.named[name])
+		if (isOwnDefault) {
+			resolved.set('default', { source: file, isDefault: true })
+			continue
+		}
+		if (exportInfo?.reExports?.[name]) {
+			continue
+		}
+		const isType = exportInfo?.typeExports?.includes(name)
+
+		const namespaceSource = reExports?.namespaces[name]
+		if (namespaceSource) {
+			resolved.set(name, { source: namespaceSource, isNamespace: true })
+			continue
+		}
+
+		const named = reExports?.named[name]
+		if (named) {
+			const target = resolveModuleExports(
+				named.source,
+				exportsByFile,
+				reExportsByFile,
+				visiting
+			).get(named.imported)
+			resolved.set(name, {
+				...(target ?? { source: named.source }),
+				...(isType && { isType })
+			})
+			continue
+		}
+
+		resolved.set(name, { source: file, ...(isType && { isType }) })
+	}
+
+	const starNames = new Set<string>()
+	for (const starSource of reExports?.stars ?? []) {
+		const starExports = resolveModuleExports(
+			starSource,
+			exportsByFile,
+			reExportsByFile,
+			visiting
+		)
+		for (const [name, resolvedExport] of starExports) {
+			// Explicit exports take precedence over star re-exports, which never forward default exports
+			const existing = resolved.get(name)
+			if (name === 'default' || (existing && !starNames.has(name))) {
+				continue
+			}
+			starNames.add(name)
+			if (!existing) {
+				resolved.set(name, resolvedExport)
+				continue
+			}
+			const sources = new Set([
+				...(existing.ambiguousSources ?? [existing.source]),
+				...(resolvedExport.ambiguousSources ?? [resolvedExport.source])
+			])
+			if (sources.size > 1) {
+				resolved.set(name, { ...existing, ambiguousSources: [...sources] })
+			}
+		}
+	}
+
+	visiting.delete(file)
+	return resolved
+}
+
+/**
+ * Finds the packages a file forwards with `export * from`, following its relative star re-exports
+ *
+ * The names of these packages are not known, so they cannot be resolved to files.
+ *
+ * @param {string} file - Package-relative path of the file
+ * @param {Map<string, FileReExports>} reExportsByFile - Relative re-exports by file
+ * @param {Set<string>} [visited] - Files that were already followed
+ * @returns {string[]} Module specifiers of the packages
+ */
+function findExternalStarSources(
+	file: string,
+	reExportsByFile: Map<string, FileReExports>,
+	visited: Set<string> = new Set()
+): string[] {
+	if (visited.has(file)) {
+		return []
+	}
+	visited.add(file)
+
+	const reExports = reExportsByFile.get(file)
+	const sources = new Set(reExports?.externalStars)
+	for (const starSource of reExports?.stars ?? []) {
+		for (const source of findExternalStarSources(
+			starSource,
+			reExportsByFile,
+			visited
+		)) {
+			sources.add(source)
+		}
+	}
+	return [...sources]
+}
+
+/**
+ * Recursively finds all exports in a package by scanning all TypeScript files
+ *
+ * This function:
+ * 1. Scans all TypeScript and JavaScript modules in the package
+ * 2. Identifies both named exports and default exports
+ * 3. Skips re-exports to avoid circular dependencies
+ * 4. Filters out ignored files based on patterns
+ * 5. Handles barrel files by tracking their re-exports
+ *
+ * @param {FindExportsParams} params - Parameters for finding exports
+ * @returns {Promise<ExportInfo[]>} Array of export information, including source file and exported names
+ */
+async function findExports({
+	packagePath,
+	ignoreSourceFiles = [],
+	stats,
+	skippedFiles,
+	parseCache,
+	logger = createLogger()
+}: FindExportsParams): Promise<ExportInfo[]> {
+	const exports: ExportInfo[] = []
+	const barrelFiles = new Set<string>()
+	const reExportsByFile = new Map<string, FileReExports>()
+
+	logger.debug(
+		`Scanning for TypeScript and JavaScript files in: ${packagePath}`
+	)
+	const allFiles = await fg(MODULE_GLOB, {
+		cwd: packagePath,
+		ignore: ['**/node_modules/**', '**/dist/**', '**/build/**']
+	})
+	logger.debug(`Found ${allFiles.length} files`, { count: allFiles.length })
+
+	if (stats) {
+		stats.sourceFilesFound = allFiles.length
+	}
+
+	const fileSet = new Set(allFiles)
+
+	// First pass: identify barrel files
+	for (const file of allFiles) {
+		const fullPath = path.join(packagePath, file)
+		if (await isBarrelFile(fullPath, logger, parseCache)) {
+			barrelFiles.add(file)
+			logger.debug(`Identified barrel file: ${file}`, { file })
+		}
+	}
+
+	// Second pass: process all files
+	for (const [index, file] of allFiles.entries()) {
+		logger.progress('Scanning source files', index, allFiles.length)
+
+		// Mark files that match ignore patterns but still process them
+		const isIgnored = ignoreSourceFiles.some((pattern) =>
+			micromatch.isMatch(file, pattern)
+		)
+		if (isIgnored) {
+			logger.debug(
+				`File matches ignore pattern but will be preserved: ${file}`,
+				{ file }
+			)
+			if (stats) {
+				stats.sourceFilesSkipped++
+			}
+			addSkippedFile(skippedFiles, {
+				filePath: path.join(packagePath, file),
+				kind: 'source',
+				reason: 'ignored'
+			})
+		}
+
+		const fullPath = path.join(packagePath, file)
+		logger.debug(`\nProcessing file: ${file}`, { file })
+
+		try {
+			const { asts } = await parseFile(fullPath, parseCache)
+			const fileExports: string[] = []
+			const reExports: Record<string, string> = {}
+			const fileExportSources: Record<string, string> = {}
+			const defaultExportNames: string[] = []
+			const typeExports: string[] = []
+			const fileReExports: FileReExports = {
+				named: {},
+				namespaces: {},
+				stars: [],
+				externalStars: []
+			}
+
+			for (const ast of asts) {
+				traverse(ast, {
+					ExportNamedDeclaration(nodePath: NodePath<ExportNamedDeclaration>) {
+						// Handle re-exports from external packages
+						if (nodePath.node.source) {
+							const sourceValue = nodePath.node.source.value
+							if (
+								sourceValue.includes('node_modules') ||
+								!sourceValue.startsWith('.')
+							) {
+								// Extract export names and their original source
+								nodePath.node.specifiers.forEach((specifier) => {
+									if (isExportSpecifier(specifier)) {
+										const exported = specifier.exported
+										const exportName = isIdentifier(exported)
+											? exported.name
+											: exported.value
+										reExports[exportName] = sourceValue
+										fileExports.push(exportName)
+										if (
+											nodePath.node.exportKind === 'type' ||
+											specifier.exportKind === 'type'
+										) {
+											typeExports.push(exportName)
+										}
+										fileExportSources[exportName] = file
+									}
+								})
+								return
+							}
+						}
 
-								// Track all files that export this symbol
-								if (!exportFiles[name]) {
-									exportFiles[name] = []
+						// Handle variable declarations with exports
+						if (nodePath.node.declaration) {
+							const declaration = nodePath.node.declaration
+							const exportNames = getExportNames(declaration)
+							if (exportNames.length > 0) {
+								fileExports.push(...exportNames)
+								if (
+									isTSInterfaceDeclaration(declaration) ||
+									isTSTypeAliasDeclaration(declaration)
+								) {
+									typeExports.push(...exportNames)
 								}
-								exportFiles[name].push(file)
-							})
+								exportNames.forEach((name) => {
+									fileExportSources[name] = file
+								})
+							}
 						}
-					}
 
-					// Handle export specifiers
-					const exportNames = nodePath.node.specifiers
-						.map((s) => {
-							if (isExportSpecifier(s)) {
-								const exported = s.exported
-								const exportName = isIdentifier(exported)
-									? exported.name
-									: exported.value
-								if (nodePath.node.source) {
-									// If it's a re-export from another file, track the source
-									const sourceValue = nodePath.node.source.value
-									if (sourceValue.startsWith('.')) {
-										const resolvedPath = path.join(
-											path.dirname(file),
-											sourceValue
-										)
-										fileExportSources[exportName] = resolvedPath.replace(
-											/\.[^/.]+$/,
-											''
-										)
-
-										// Track all files that export this symbol
-										if (!exportFiles[exportName]) {
-											exportFiles[exportName] = []
+						// Handle export specifiers
+						const exportNames = nodePath.node.specifiers
+							.map((s) => {
+								if (isExportSpecifier(s)) {
+									const exported = s.exported
+									const exportName = isIdentifier(exported)
+										? exported.name
+										: exported.value
+									if (
+										nodePath.node.exportKind === 'type' ||
+										s.exportKind === 'type'
+									) {
+										typeExports.push(exportName)
+									}
+									if (nodePath.node.source) {
+										// If it's a re-export from another file, track the source
+										const sourceValue = nodePath.node.source.value
+										if (sourceValue.startsWith('.')) {
+											const resolvedPath = resolveRelativeModule(
+												file,
+												sourceValue,
+												fileSet
+											)
+											if (resolvedPath) {
+												fileReExports.named[exportName] = {
+													source: resolvedPath,
+													imported: s.local.name
+												}
+											}
 										}
-										exportFiles[exportName].push(file)
 									}
+									return exportName
 								}
-								return exportName
-							}
-							return null
-						})
-						.filter((name: string | null): name is string => name !== null)
+								if (isExportNamespaceSpecifier(s)) {
+									const exportName = s.exported.name
+									const sourceValue = nodePath.node.source?.value
+									const resolvedPath =
+										sourceValue?.startsWith('.') &&
+										resolveRelativeModule(file, sourceValue, fileSet)
+									if (resolvedPath) {
+										fileReExports.namespaces[exportName] = resolvedPath
+									}
+									return exportName
+								}
+								return null
+							})
+							.filter((name: string | null): name is string => name !== null)
 
-					if (exportNames.length > 0) {
-						fileExports.push(...exportNames)
-						exportNames.forEach((name) => {
-							if (!fileExportSources[name]) {
-								fileExportSources[name] = file
-							}
-						})
-					}
-				},
-				ExportDefaultDeclaration(path: NodePath<ExportDefaultDeclaration>) {
-					const exported = path.node.declaration
-					const exportName = isIdentifier(exported)
-						? exported.name
-						: isFunctionDeclaration(exported) && exported.id
-							? exported.id.name
-							: isClassDeclaration(exported) && exported.id
+						if (exportNames.length > 0) {
+							fileExports.push(...exportNames)
+							exportNames.forEach((name) => {
+								if (!fileExportSources[name]) {
+									fileExportSources[name] = file
+								}
+							})
+						}
+					},
+					ExportAllDeclaration(nodePath: NodePath<ExportAllDeclaration>) {
+						const sourceValue = nodePath.node.source.value
+						if (!sourceValue.startsWith('.')) {
+							fileReExports.externalStars.push(sourceValue)
+							return
+						}
+						const resolvedPath = resolveRelativeModule(
+							file,
+							sourceValue,
+							fileSet
+						)
+						if (resolvedPath) {
+							fileReExports.stars.push(resolvedPath)
+						}
+					},
+					ExportDefaultDeclaration(path: NodePath<ExportDefaultDeclaration>) {
+						const exported = path.node.declaration
+						const exportName = isIdentifier(exported)
+							? exported.name
+							: isFunctionDeclaration(exported) && exported.id
 								? exported.id.name
-								: 'default'
+								: isClassDeclaration(exported) && exported.id
+									? exported.id.name
+									: 'default'
 
-					fileExports.push(exportName)
-					fileExportSources[exportName] = file
+						fileExports.push(exportName)
+						fileExportSources[exportName] = file
 
-					// If this is a named entity (class, function) being exported as default, track its name
-					if (exportName !== 'default') {
-						defaultExportNames.push(exportName)
+						// If this is a named entity (class, function) being exported as default, track its name
+						if (exportName !== 'default') {
+							defaultExportNames.push(exportName)
+						}
 					}
-				}
-			})
+				})
+			}
 
-			if (fileExports.length > 0 || Object.keys(reExports).length > 0) {
+			reExportsByFile.set(file, fileReExports)
+
+			if (
+				fileExports.length > 0 ||
+				Object.keys(reExports).length > 0 ||
+				fileReExports.stars.length > 0 ||
+				fileReExports.externalStars.length > 0
+			) {
 				exports.push({
 					source: file,
 					exports: fileExports,
@@ -403,365 +1488,2218 @@ async function findExports({
 						exportSources: fileExportSources
 					}),
 					...(defaultExportNames.length > 0 && { defaultExportNames }),
-					...(barrelFiles.has(file) && { isBarrelFile: true }),
-					...(Object.keys(exportFiles).length > 0 && { exportFiles })
+					...(typeExports.length > 0 && { typeExports }),
+					...(barrelFiles.has(file) && { isBarrelFile: true })
 				})
 
 				// Print exports in a single line
 				if (fileExports.length > 0) {
-					console.log(`Found exports ${fileExports.join(', ')} in ${file}`)
+					logger.debug(`Found exports ${fileExports.join(', ')} in ${file}`, {
+						file,
+						exports: fileExports
+					})
 				}
 			}
 		} catch (error) {
-			console.error(`Error parsing ${file}:`, error)
+			logger.error(`Error parsing ${file}`, { file, error })
+			addSkippedFile(skippedFiles, {
+				filePath: path.join(packagePath, file),
+				kind: 'source',
+				reason: 'error'
+			})
+		}
+	}
+
+	// Third pass: resolve re-exported names to the files that declare them
+	const exportsByFile = new Map(
+		exports.map((exportInfo) => [exportInfo.source, exportInfo])
+	)
+	const resolvedExportsByFile = new Map(
+		exports.map((exportInfo) => [
+			exportInfo.source,
+			resolveModuleExports(exportInfo.source, exportsByFile, reExportsByFile)
+		])
+	)
+	for (const exportInfo of exports) {
+		const externalStarSources = findExternalStarSources(
+			exportInfo.source,
+			reExportsByFile
+		)
+		if (externalStarSources.length > 0) {
+			exportInfo.externalStarSources = externalStarSources
+		}
+
+		const resolvedExports = resolvedExportsByFile.get(exportInfo.source)
+		for (const [
+			name,
+			{ source, isNamespace, isType, isDefault, ambiguousSources }
+		] of resolvedExports ?? []) {
+			if (name === 'default') {
+				// Default exports declared in the file itself are already known by their name
+				if (source !== exportInfo.source) {
+					exportInfo.exportSources = {
+						...exportInfo.exportSources,
+						default: source
+					}
+					exportInfo.defaultExports = [
+						...(exportInfo.defaultExports ?? []),
+						name
+					]
+				}
+				continue
+			}
+			if (!exportInfo.exports.includes(name)) {
+				exportInfo.exports.push(name)
+			}
+			if (isDefault) {
+				exportInfo.defaultExports = [...(exportInfo.defaultExports ?? []), name]
+			}
+			exportInfo.exportSources = {
+				...exportInfo.exportSources,
+				[name]: source
+			}
+			if (isNamespace) {
+				exportInfo.namespaceExports = [
+					...(exportInfo.namespaceExports ?? []),
+					name
+				]
+			}
+			if (isType && !exportInfo.typeExports?.includes(name)) {
+				exportInfo.typeExports = [...(exportInfo.typeExports ?? []), name]
+			}
+			if (ambiguousSources) {
+				exportInfo.ambiguousExports = {
+					...exportInfo.ambiguousExports,
+					[name]: ambiguousSources
+				}
+			}
 		}
 	}
 
-	console.log(`\nTotal exports found: ${exports.length}`)
-	console.log(`Barrel files found: ${barrelFiles.size}`)
+	logger.progress('Scanning source files', allFiles.length, allFiles.length)
+	logger.debug(`\nTotal exports found: ${exports.length}`)
+	logger.debug(`Barrel files found: ${barrelFiles.size}`)
 	return exports
 }
 
 /**
- * Finds all files in the monorepo that import from a specific package
- *
- * This function:
- * 1. Uses fast-glob to find all TypeScript files
- * 2. Parses each file's AST to find imports
- * 3. Handles both direct package imports and subpath imports
- * 4. Excludes node_modules, dist, and build directories
- * 5. Filters out files matching ignore patterns
+ * Collects the module specifiers a file imports, re-exports, dynamically imports or mocks
  *
- * @param {FindImportsParams} params - Parameters for finding imports
- * @returns {Promise<string[]>} Array of file paths that import from the package
+ * @param {File} ast - AST of the file
+ * @returns {string[]} Unique module specifiers in order of appearance
  */
-async function findImports({
-	packageName,
-	targetPath,
-	ignoreTargetFiles = [],
-	stats
-}: FindImportsParams): Promise<string[]> {
-	try {
-		const allFiles = new Set<string>()
-
-		// Find all TypeScript and JavaScript files in the monorepo
-		const files = await fg(['**/*.{ts,tsx,js,jsx}'], {
-			cwd: targetPath,
-			absolute: true,
-			ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
-			followSymbolicLinks: false
-		})
-
-		console.log(`Found ${files.length} files to scan`)
+function collectImportSources(ast: File): string[] {
+	const sources = new Set<string>()
 
-		// Scan each file for imports
-		for (const file of files) {
-			// Check if file matches any ignore pattern
-			const relativePath = path.relative(targetPath, file)
-			if (
-				ignoreTargetFiles.some((pattern) =>
-					micromatch.isMatch(relativePath, pattern)
-				)
-			) {
-				if (stats) {
-					stats.targetFilesSkipped++
-				}
-				continue
+	traverse(ast, {
+		ImportDeclaration(path: NodePath<ImportDeclaration>) {
+			sources.add(path.node.source.value)
+		},
+		ExportNamedDeclaration(path: NodePath<ExportNamedDeclaration>) {
+			if (path.node.source) {
+				sources.add(path.node.source.value)
 			}
-
-			try {
-				const content = await readFile(file, 'utf-8')
-				const ast = parse(content, BABEL_CONFIG)
-
-				traverse(ast, {
-					ImportDeclaration(path: NodePath<ImportDeclaration>) {
-						const source = path.node.source.value
-						// Check for exact package import or subpath import
-						if (
-							source === packageName ||
-							source.startsWith(`${packageName}/`)
-						) {
-							allFiles.add(file)
-						}
-					}
-				})
-			} catch (error) {
-				console.error(`Error processing file ${file}:`, error)
+		},
+		ExportAllDeclaration(path: NodePath<ExportAllDeclaration>) {
+			sources.add(path.node.source.value)
+		},
+		CallExpression(path: NodePath<CallExpression>) {
+			const source = getDynamicImportSource(path) ?? getMockSource(path.node)
+			if (source) {
+				sources.add(source)
 			}
 		}
+	})
 
-		const uniqueFiles = Array.from(allFiles)
-		if (uniqueFiles.length > 0) {
-			console.log(
-				`Found total of ${uniqueFiles.length} files with imports from ${packageName}`
-			)
-			console.log('Files found:')
-			for (const file of uniqueFiles) {
-				console.log(`  ${file}`)
-			}
-		} else {
-			console.log(`No files found importing from ${packageName}`)
+	return [...sources]
+}
+
+/**
+ * Reads and parses target files for the module specifiers they import
+ *
+ * Runs in the main thread, or in each worker of the scan worker pool.
+ *
+ * @param {string[]} files - Absolute paths of the files to scan
+ * @param {(result: ScanResult) => void} onResult - Receives the result of each file
+ * @param {(file: string, sources: string[], parsed: ParsedFile) => void} [onParsed] - Receives the ASTs of each file, in the main thread
+ * @returns {Promise<void>}
+ */
+export async function scanFiles(
+	files: string[],
+	onResult: (result: ScanResult) => void,
+	onParsed?: (file: string, sources: string[], parsed: ParsedFile) => void
+): Promise<void> {
+	for (const file of files) {
+		try {
+			const content = await readFile(file, 'utf-8')
+			const asts = parseModules(file, content)
+			const sources = [...new Set(asts.flatMap(collectImportSources))]
+			onResult({ file, sources })
+			onParsed?.(file, sources, { content, asts })
+		} catch (error) {
+			onResult({
+				file,
+				error: error instanceof Error ? error.message : String(error)
+			})
 		}
+	}
+}
 
-		return uniqueFiles
-	} catch (error) {
-		console.error('Error finding imports:', error)
-		return []
+/**
+ * Starts a worker that scans target files
+ *
+ * When running from the TypeScript sources (e.g. in tests), the worker loads them through tsx.
+ *
+ * @param {string[]} files - Absolute paths of the files to scan
+ * @returns {Worker} Worker that posts a ScanResult for each file
+ */
+function createScanWorker(files: string[]): Worker {
+	const extension = path.extname(fileURLToPath(import.meta.url))
+	const workerUrl = new URL(`./scan-worker${extension}`, import.meta.url)
+
+	if (extension === '.ts') {
+		return new Worker(
+			`import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(workerUrl.href)}) })`,
+			{ eval: true, workerData: { files } }
+		)
 	}
+	return new Worker(workerUrl, { workerData: { files } })
 }
 
 /**
- * Updates imports in a file to point directly to source files instead of using barrel files
+ * Scans target files in a pool of worker threads
  *
- * This function:
- * 1. Parses the file's AST to find imports from the package
- * 2. For each import, finds the source file containing the export
- * 3. Updates the import to point directly to the source file
- * 4. Preserves original import names and types
- * 5. Only modifies the file if changes are needed
+ * Files are dealt round-robin between the workers so that each gets a similar share of every directory.
  *
- * @param {UpdateImportsParams} params - Parameters for updating imports
+ * @param {string[]} files - Absolute paths of the files to scan
+ * @param {number} concurrency - Number of workers
+ * @param {(result: ScanResult) => void} onResult - Receives the result of each file
  * @returns {Promise<void>}
  */
-async function updateImports({
-	filePath,
-	packageName,
-	exports,
-	includeExtension = true,
-	dryRun = false,
+async function scanFilesInWorkers(
+	files: string[],
+	concurrency: number,
+	onResult: (result: ScanResult) => void
+): Promise<void> {
+	const workerCount = Math.min(concurrency, files.length)
+
+	await Promise.all(
+		Array.from(
+			{ length: workerCount },
+			(_, workerIndex) =>
+				new Promise<void>((resolve, reject) => {
+					const worker = createScanWorker(
+						files.filter((_, index) => index % workerCount === workerIndex)
+					)
+					worker.on('message', onResult)
+					worker.on('error', reject)
+					worker.on('exit', (code) => {
+						if (code === 0) {
+							resolve()
+						} else {
+							reject(new Error(`Scan worker exited with code ${code}`))
+						}
+					})
+				})
+		)
+	)
+}
+
+/**
+ * Scans all target files once for the module specifiers they import
+ *
+ * The result is shared between source packages, so that target files are not
+ * parsed again for every package. Files scanned in the main thread that import
+ * one of the packages by name are added to the parse cache, while workers only
+ * return module specifiers, so those files are parsed again when they are migrated.
+ *
+ * @param {ScanTargetFilesParams} params - Parameters for scanning target files
+ * @returns {Promise<TargetScan>} Target files and the module specifiers they import
+ */
+async function scanTargetFiles({
+	targetPath,
+	changedFiles,
+	concurrency = 1,
+	skippedFiles,
+	parseCache,
+	packageNames = [],
+	logger = createLogger()
+}: ScanTargetFilesParams): Promise<TargetScan> {
+	// Find all TypeScript and JavaScript files, and files with script blocks, in the monorepo
+	const allFiles = await fg([TARGET_GLOB], {
+		cwd: targetPath,
+		absolute: true,
+		ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
+		followSymbolicLinks: false
+	})
+
+	// In incremental mode, only files changed in git are scanned
+	const files = changedFiles
+		? allFiles.filter((file) => changedFiles.has(path.resolve(file)))
+		: allFiles
+
+	logger.debug(`Found ${files.length} files to scan`, { count: files.length })
+
+	const results = new Map<string, ScanResult>()
+	const onResult = (result: ScanResult): void => {
+		results.set(result.file, result)
+		logger.progress('Scanning target files', results.size, files.length)
+	}
+	const onParsed = (
+		file: string,
+		sources: string[],
+		parsed: ParsedFile
+	): void => {
+		if (parseCache && importsPackage(sources, packageNames)) {
+			cacheParsedFile(parseCache, file, Promise.resolve(parsed))
+		}
+	}
+
+	if (concurrency > 1 && files.length > 1) {
+		try {
+			await scanFilesInWorkers(files, concurrency, onResult)
+		} catch (error) {
+			logger.warn('Could not scan target files in worker threads', { error })
+			await scanFiles(
+				files.filter((file) => !results.has(file)),
+				onResult,
+				onParsed
+			)
+		}
+	} else {
+		await scanFiles(files, onResult, onParsed)
+	}
+
+	const sources = new Map<string, string[]>()
+	for (const file of files) {
+		const result = results.get(file)
+		if (result?.sources) {
+			sources.set(file, result.sources)
+		} else {
+			logger.error(`Error processing file ${file}`, {
+				file,
+				error: result?.error
+			})
+			addSkippedFile(skippedFiles, {
+				filePath: file,
+				kind: 'target',
+				reason: 'error'
+			})
+		}
+	}
+
+	return { files, sources }
+}
+
+/**
+ * Finds all files in the monorepo that import from a specific package
+ *
+ * This function:
+ * 1. Scans the target files for the module specifiers they import, unless a scan is given
+ * 2. Handles both direct package imports and subpath imports
+ * 3. Excludes node_modules, dist, and build directories
+ * 4. Filters out files matching ignore patterns
+ *
+ * @param {FindImportsParams} params - Parameters for finding imports
+ * @returns {Promise<string[]>} Array of file paths that import from the package
+ */
+async function findImports({
+	packageName,
+	targetPath,
+	ignoreTargetFiles = [],
+	stats,
+	skippedFiles,
+	packagePath,
+	entryFile,
+	exports = [],
+	relativeImports = false,
+	tsConfigCache,
+	targetScan,
+	logger = createLogger()
+}: FindImportsParams): Promise<string[]> {
+	try {
+		const allFiles = new Set<string>()
+		const barrelFiles = getBarrelFiles(exports)
+		const { files, sources } =
+			targetScan ??
+			(await scanTargetFiles({ targetPath, skippedFiles, logger }))
+
+		for (const file of files) {
+			// Check if file matches any ignore pattern
+			const relativePath = path.relative(targetPath, file)
+			if (
+				ignoreTargetFiles.some((pattern) =>
+					micromatch.isMatch(relativePath, pattern)
+				)
+			) {
+				if (stats) {
+					stats.targetFilesSkipped++
+				}
+				addSkippedFile(skippedFiles, {
+					filePath: file,
+					kind: 'target',
+					reason: 'ignored'
+				})
+				continue
+			}
+
+			const fileSources = sources.get(file) ?? []
+			if (fileSources.length === 0) {
+				continue
+			}
+
+			const context: PackageImportContext = {
+				packageName,
+				packagePath,
+				entryFile,
+				barrelFiles,
+				aliases:
+					packagePath && tsConfigCache
+						? await findPathAliases(file, tsConfigCache)
+						: [],
+				importerFile: relativeImports
+					? getPackageFile(file, packagePath)
+					: undefined
+			}
+			// Check for package imports, subpath imports, path aliases and relative barrel imports
+			if (fileSources.some((source) => matchPackageImport(source, context))) {
+				allFiles.add(file)
+			}
+		}
+
+		const uniqueFiles = Array.from(allFiles)
+		if (uniqueFiles.length > 0) {
+			logger.info(
+				`Found total of ${uniqueFiles.length} files with imports from ${packageName}`,
+				{ packageName, count: uniqueFiles.length }
+			)
+			logger.debug('Files found:')
+			for (const file of uniqueFiles) {
+				logger.debug(`  ${file}`, { file })
+			}
+		} else {
+			logger.info(`No files found importing from ${packageName}`, {
+				packageName
+			})
+		}
+
+		return uniqueFiles
+	} catch (error) {
+		logger.error('Error finding imports', { packageName, error })
+		return []
+	}
+}
+
+/**
+ * Creates import declarations for specifiers that resolve to the same source
+ *
+ * Specifiers from `import type` declarations are kept in a separate type-only
+ * declaration, and inline `type` modifiers are preserved on value declarations.
+ * Names that map to the default export of the module become default imports.
+ *
+ * @param {ImportSpec[]} specifiers - Specifiers to import from the source
+ * @param {string} source - Module specifier to import from
+ * @returns {ImportDeclaration[]} Import declarations for the source
+ */
+function createImportDeclarations(
+	specifiers: ImportSpec[],
+	source: string
+): ImportDeclaration[] {
+	const declarations: ImportDeclaration[] = []
+
+	for (const isTypeOnly of [false, true]) {
+		const kindSpecifiers = specifiers.filter(
+			(spec) => Boolean(spec.isTypeOnly) === isTypeOnly
+		)
+		const namedSpecifiers = kindSpecifiers.filter(
+			(spec) => !spec.isNamespace && !spec.isDefault
+		)
+		const defaultSpecifiers = kindSpecifiers.filter((spec) => spec.isDefault)
+		// A declaration has one default import, which cannot have an inline `type` modifier
+		const combinedDefault = defaultSpecifiers.find(
+			(spec) => isTypeOnly || !spec.isType
+		)
+		if (namedSpecifiers.length > 0 || combinedDefault) {
+			const declaration = importDeclaration(
+				[
+					...(combinedDefault
+						? [importDefaultSpecifier(combinedDefault.local)]
+						: []),
+					...namedSpecifiers.map(({ local, imported, isType }) => {
+						const specifier = importSpecifier(local, imported)
+						if (isType && !isTypeOnly) {
+							specifier.importKind = 'type'
+						}
+						return specifier
+					})
+				],
+				stringLiteral(source)
+			)
+			if (isTypeOnly) {
+				declaration.importKind = 'type'
+			}
+			declarations.push(declaration)
+		}
+		for (const spec of defaultSpecifiers) {
+			if (spec === combinedDefault) {
+				continue
+			}
+			const declaration = importDeclaration(
+				[importDefaultSpecifier(spec.local)],
+				stringLiteral(source)
+			)
+			if (isTypeOnly || spec.isType) {
+				declaration.importKind = 'type'
+			}
+			declarations.push(declaration)
+		}
+
+		// Namespace re-exports become namespace imports of the declaring file
+		for (const { local } of kindSpecifiers.filter((spec) => spec.isNamespace)) {
+			const declaration = importDeclaration(
+				[importNamespaceSpecifier(local)],
+				stringLiteral(source)
+			)
+			if (isTypeOnly) {
+				declaration.importKind = 'type'
+			}
+			declarations.push(declaration)
+		}
+	}
+
+	return declarations
+}
+
+/**
+ * Finds an import of the same module and kind that a migrated import can be merged into
+ *
+ * Namespace imports cannot be combined with named imports in one declaration, and
+ * a declaration has at most one default import.
+ *
+ * @param {ImportDeclaration} newImport - Migrated import declaration
+ * @param {ImportDeclaration[]} existingImports - Import declarations of the file that are not barrel imports
+ * @returns {ImportDeclaration | undefined} Declaration to merge into, if any
+ */
+function findMergeableImport(
+	newImport: ImportDeclaration,
+	existingImports: ImportDeclaration[]
+): ImportDeclaration | undefined {
+	const isTypeOnly = newImport.importKind === 'type'
+	if (newImport.specifiers.some((spec) => isImportNamespaceSpecifier(spec))) {
+		return undefined
+	}
+	const hasDefault = newImport.specifiers.some((spec) =>
+		isImportDefaultSpecifier(spec)
+	)
+	return existingImports.find(
+		(existing) =>
+			existing.source.value === newImport.source.value &&
+			(existing.importKind === 'type') === isTypeOnly &&
+			!existing.specifiers.some(
+				(spec) =>
+					isImportNamespaceSpecifier(spec) ||
+					(hasDefault && isImportDefaultSpecifier(spec))
+			)
+	)
+}
+
+/**
+ * Adds the specifiers of a migrated import to an existing import of the same module
+ *
+ * Specifiers whose local name the existing import already binds are not added again.
+ *
+ * @param {ImportDeclaration} existing - Existing import declaration
+ * @param {ImportDeclaration} newImport - Migrated import declaration
+ * @returns {ImportDeclaration} Declaration with the specifiers of both
+ */
+function mergeImportDeclarations(
+	existing: ImportDeclaration,
+	newImport: ImportDeclaration
+): ImportDeclaration {
+	const localNames = new Set(existing.specifiers.map((spec) => spec.local.name))
+	const specifiers = [
+		...existing.specifiers,
+		...newImport.specifiers.filter((spec) => !localNames.has(spec.local.name))
+	]
+	// The default import comes first
+	const merged = importDeclaration(
+		[
+			...specifiers.filter((spec) => isImportDefaultSpecifier(spec)),
+			...specifiers.filter((spec) => !isImportDefaultSpecifier(spec))
+		],
+		existing.source
+	)
+	merged.importKind = existing.importKind
+	return merged
+}
+
+/**
+ * Sorts import declarations, and the named specifiers in each of them, alphabetically
+ *
+ * @param {ImportDeclaration[]} declarations - Import declarations that replace a barrel import
+ * @param {ImportSortOrder} order - Whether to sort declarations by module path or by their first specifier
+ * @returns {ImportDeclaration[]} Sorted import declarations
+ */
+function sortImportDeclarations(
+	declarations: ImportDeclaration[],
+	order: ImportSortOrder
+): ImportDeclaration[] {
+	for (const declaration of declarations) {
+		// Default and namespace specifiers have to come first
+		const namedSpecifiers = declaration.specifiers.filter((spec) =>
+			isImportSpecifier(spec)
+		)
+		namedSpecifiers.sort((a, b) =>
+			a.local.name.localeCompare(b.local.name, 'en')
+		)
+		declaration.specifiers = [
+			...declaration.specifiers.filter((spec) => !isImportSpecifier(spec)),
+			...namedSpecifiers
+		]
+	}
+
+	const getSortKey = (declaration: ImportDeclaration): string =>
+		order === 'path'
+			? declaration.source.value
+			: (declaration.specifiers[0]?.local.name ?? '')
+	const sorted = [...declarations]
+	sorted.sort((a, b) => getSortKey(a).localeCompare(getSortKey(b), 'en'))
+	return sorted
+}
+
+/**
+ * Creates re-export declarations for specifiers that resolve to the same source
+ *
+ * Mirrors {@link createImportDeclarations}: specifiers from `export type`
+ * declarations get a separate type-only declaration.
+ *
+ * @param {ReExportSpec[]} specifiers - Specifiers to re-export from the source
+ * @param {string} source - Module specifier to re-export from
+ * @returns {ExportNamedDeclaration[]} Re-export declarations for the source
+ */
+function createExportDeclarations(
+	specifiers: ReExportSpec[],
+	source: string
+): ExportNamedDeclaration[] {
+	const declarations: ExportNamedDeclaration[] = []
+
+	for (const isTypeOnly of [false, true]) {
+		const kindSpecifiers = specifiers.filter(
+			(spec) => Boolean(spec.isTypeOnly) === isTypeOnly
+		)
+		const namedSpecifiers = kindSpecifiers.filter((spec) => !spec.isNamespace)
+		if (namedSpecifiers.length > 0) {
+			const declaration = exportNamedDeclaration(
+				null,
+				namedSpecifiers.map(({ local, exported, isType, isDefault }) => {
+					// Names that map to a default export forward it as `default as Name`
+					const specifier = exportSpecifier(
+						isDefault ? identifier('default') : local,
+						exported
+					)
+					if (isType && !isTypeOnly) {
+						specifier.exportKind = 'type'
+					}
+					return specifier
+				}),
+				stringLiteral(source)
+			)
+			if (isTypeOnly) {
+				declaration.exportKind = 'type'
+			}
+			declarations.push(declaration)
+		}
+
+		// Namespace re-exports forward the namespace of the declaring file
+		for (const { exported } of kindSpecifiers.filter(
+			(spec) => spec.isNamespace
+		)) {
+			if (!isIdentifier(exported)) {
+				continue
+			}
+			const declaration = exportNamedDeclaration(
+				null,
+				[exportNamespaceSpecifier(exported)],
+				stringLiteral(source)
+			)
+			if (isTypeOnly) {
+				declaration.exportKind = 'type'
+			}
+			declarations.push(declaration)
+		}
+	}
+
+	return declarations
+}
+
+/**
+ * Collects the members accessed on a namespace import (`X.foo`, `X.Bar<T>`, `<X.Button />`)
+ *
+ * @param {File} ast - AST of the importing file
+ * @param {string} namespaceName - Local name of the namespace import
+ * @returns {Map<string, NamespaceMember> | undefined} Members by name, or undefined if the namespace is used in a way that cannot be rewritten (passed as a value, computed access, ...)
+ */
+function collectNamespaceMembers(
+	ast: File,
+	namespaceName: string
+): Map<string, NamespaceMember> | undefined {
+	const members = new Map<string, NamespaceMember>()
+	let isAnalysable = true
+
+	const isNamespaceBinding = (nodePath: NodePath): boolean =>
+		nodePath.scope.getBinding(namespaceName)?.kind === 'module'
+	const addMember = (
+		name: string,
+		nodePath: NodePath,
+		isType: boolean
+	): void => {
+		const member = members.get(name) ?? { paths: [], isType }
+		member.paths.push(nodePath)
+		member.isType &&= isType
+		members.set(name, member)
+	}
+
+	traverse(ast, {
+		Identifier(nodePath) {
+			if (
+				nodePath.node.name !== namespaceName ||
+				!isNamespaceBinding(nodePath)
+			) {
+				return
+			}
+
+			const parentPath = nodePath.parentPath
+			if (
+				(parentPath.isMemberExpression() ||
+					parentPath.isOptionalMemberExpression()) &&
+				parentPath.node.object === nodePath.node
+			) {
+				const { property, computed } = parentPath.node
+				if (!computed && isIdentifier(property)) {
+					addMember(property.name, parentPath, false)
+					return
+				}
+				if (
+					computed &&
+					isStringLiteral(property) &&
+					/^[A-Za-z_$][\w$]*$/.test(property.value)
+				) {
+					addMember(property.value, parentPath, false)
+					return
+				}
+			}
+			if (
+				parentPath.isTSQualifiedName() &&
+				parentPath.node.left === nodePath.node
+			) {
+				addMember(parentPath.node.right.name, parentPath, true)
+				return
+			}
+
+			// Any other reference uses the namespace object itself
+			if (nodePath.isReferencedIdentifier()) {
+				isAnalysable = false
+				nodePath.stop()
+			}
+		},
+		JSXMemberExpression(nodePath) {
+			const { object, property } = nodePath.node
+			if (
+				isJSXIdentifier(object) &&
+				object.name === namespaceName &&
+				isNamespaceBinding(nodePath)
+			) {
+				addMember(property.name, nodePath, false)
+			}
+		}
+	})
+
+	return isAnalysable ? members : undefined
+}
+
+/**
+ * Returns the method of a `jest` or `vi` call (`vi.mock`, `jest.requireActual`, ...)
+ */
+function getMockMethod(callee: CallExpression['callee']): string | undefined {
+	if (
+		!isMemberExpression(callee) ||
+		!isIdentifier(callee.object) ||
+		!MOCK_FRAMEWORKS.has(callee.object.name)
+	) {
+		return undefined
+	}
+	return getMemberName(callee)
+}
+
+/**
+ * Returns the module specifier of a mock loader call (`vi.importActual('pkg')`, `jest.requireActual('pkg')`, ...)
+ */
+function getMockLoaderSource(node: CallExpression): string | undefined {
+	const [source] = node.arguments
+	return MOCK_LOADER_METHODS.has(getMockMethod(node.callee) ?? '') &&
+		isStringLiteral(source)
+		? source.value
+		: undefined
+}
+
+/**
+ * Returns the module specifier of an `import()`, `require()` or mock loader call
+ *
+ * @param {NodePath<CallExpression>} nodePath - Path of the call
+ * @returns {string | undefined} Module specifier, or undefined if the call does not load a module by a string literal
+ */
+function getDynamicImportSource(
+	nodePath: NodePath<CallExpression>
+): string | undefined {
+	const { callee, arguments: args } = nodePath.node
+	const isRequire =
+		isIdentifier(callee, { name: 'require' }) &&
+		!nodePath.scope.hasBinding('require')
+	const [source] = args
+	if ((isImport(callee) || isRequire) && isStringLiteral(source)) {
+		return source.value
+	}
+	return getMockLoaderSource(nodePath.node)
+}
+
+/**
+ * Returns the module specifier of a module mock call (`vi.mock('pkg')`, `jest.unmock('pkg')`, ...)
+ */
+function getMockSource(node: CallExpression): string | undefined {
+	const [source] = node.arguments
+	return MOCK_METHODS.has(getMockMethod(node.callee) ?? '') &&
+		isStringLiteral(source)
+		? source.value
+		: undefined
+}
+
+/**
+ * Returns the object a mock factory returns (`() => ({ ... })` or a function returning an object literal)
+ */
+function getFactoryObject(
+	factory: CallExpression['arguments'][number] | undefined
+): ObjectExpression | undefined {
+	if (!isArrowFunctionExpression(factory) && !isFunctionExpression(factory)) {
+		return undefined
+	}
+	const { body } = factory
+	if (isObjectExpression(body)) {
+		return body
+	}
+	const [statement] = isBlockStatement(body) ? body.body : []
+	return isBlockStatement(body) &&
+		body.body.length === 1 &&
+		isReturnStatement(statement) &&
+		isObjectExpression(statement.argument)
+		? statement.argument
+		: undefined
+}
+
+/**
+ * Returns the mock loader call spread into a mock factory (`...(await vi.importActual('pkg'))`)
+ */
+function getSpreadLoader(argument: Expression): CallExpression | undefined {
+	const loader = isAwaitExpression(argument) ? argument.argument : argument
+	return isCallExpression(loader) && getMockLoaderSource(loader) !== undefined
+		? loader
+		: undefined
+}
+
+/**
+ * Returns the name a member expression reads (`module.X`, `module['X']`)
+ */
+function getMemberName(node: MemberExpression): string | undefined {
+	const { property, computed } = node
+	if (!computed && isIdentifier(property)) {
+		return property.name
+	}
+	return computed && isStringLiteral(property) ? property.value : undefined
+}
+
+/**
+ * Returns the names a destructuring pattern reads, or undefined if it uses rest elements or computed keys
+ */
+function getPatternNames(pattern: ObjectPattern): string[] | undefined {
+	const names: string[] = []
+	for (const property of pattern.properties) {
+		const name = isObjectProperty(property)
+			? getPropertyName(property)
+			: undefined
+		if (name === undefined) {
+			return undefined
+		}
+		names.push(name)
+	}
+	return names
+}
+
+/**
+ * Returns the key of an object property, or undefined if it is computed
+ */
+function getPropertyName(
+	property: ObjectProperty | ObjectMethod
+): string | undefined {
+	const { key, computed } = property
+	if (!computed && isIdentifier(key)) {
+		return key.name
+	}
+	return isStringLiteral(key) ? key.value : undefined
+}
+
+/**
+ * Returns the members read from a binding, or undefined if it is used other than through member access
+ */
+function getBindingMemberNames(binding?: Binding): string[] | undefined {
+	if (!binding || binding.constantViolations.length > 0) {
+		return undefined
+	}
+	const names: string[] = []
+	for (const referencePath of binding.referencePaths) {
+		const { parentPath } = referencePath
+		const name =
+			parentPath?.isMemberExpression() &&
+			parentPath.node.object === referencePath.node
+				? getMemberName(parentPath.node)
+				: undefined
+		if (name === undefined) {
+			return undefined
+		}
+		names.push(name)
+	}
+	return names
+}
+
+/**
+ * Collects the names read from the module of an `import()` or `require()` call
+ *
+ * Supports destructuring (`const { X } = await import('pkg')`), member access
+ * (`require('pkg').X`, `module.X` on a variable) and `.then()` callbacks
+ * (`import('pkg').then((m) => ({ default: m.X }))`).
+ *
+ * @param {NodePath<CallExpression>} callPath - Path of the `import()` or `require()` call
+ * @returns {DynamicImportUsage | undefined} Names read from the module, or undefined if the module object is used in a way that cannot be followed
+ */
+function collectDynamicImportNames(
+	callPath: NodePath<CallExpression>
+): DynamicImportUsage | undefined {
+	const { callee } = callPath.node
+	const isAsync =
+		isImport(callee) ||
+		MOCK_LOADER_METHODS.get(getMockMethod(callee) ?? '') === true
+	const modulePath = callPath.parentPath.isAwaitExpression()
+		? callPath.parentPath
+		: callPath
+	// Only awaited imports and synchronous requires evaluate to the module itself
+	const isModule = !isAsync || modulePath !== callPath
+	const usagePath = modulePath.parentPath
+
+	if (
+		isModule &&
+		usagePath?.isVariableDeclarator() &&
+		usagePath.node.init === modulePath.node
+	) {
+		const { id } = usagePath.node
+		if (isObjectPattern(id)) {
+			const names = getPatternNames(id)
+			return names && { names, declarator: usagePath, pattern: id }
+		}
+		if (isIdentifier(id)) {
+			const names = getBindingMemberNames(usagePath.scope.getBinding(id.name))
+			return names && { names }
+		}
+		return undefined
+	}
+
+	if (
+		usagePath?.isMemberExpression() &&
+		usagePath.node.object === modulePath.node
+	) {
+		const name = getMemberName(usagePath.node)
+		if (isModule) {
+			return name === undefined ? undefined : { names: [name] }
+		}
+
+		const thenPath = usagePath.parentPath
+		if (
+			name !== 'then' ||
+			!thenPath.isCallExpression() ||
+			thenPath.node.callee !== usagePath.node
+		) {
+			return undefined
+		}
+		const [callback] = thenPath.get('arguments')
+		if (
+			!callback?.isArrowFunctionExpression() &&
+			!callback?.isFunctionExpression()
+		) {
+			return undefined
+		}
+		const [param] = callback.node.params
+		if (isObjectPattern(param)) {
+			const names = getPatternNames(param)
+			return names && { names }
+		}
+		if (isIdentifier(param)) {
+			const names = getBindingMemberNames(callback.scope.getBinding(param.name))
+			return names && { names }
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Prints the diff of a file change and adds it to the patch, when requested
+ *
+ * Paths in the diff are relative to the working directory, where the patch is applied.
+ *
+ * @param {string} filePath - Path of the changed file
+ * @param {string} oldContent - Content before the change
+ * @param {string} newContent - Content after the change
+ * @param {{ diff: boolean; color: boolean; patches?: string[]; logger: Logger }} output - Whether and how to print the diff, and the patch to add it to
+ */
+function showChanges(
+	filePath: string,
+	oldContent: string,
+	newContent: string,
+	{
+		diff,
+		color,
+		patches,
+		logger
+	}: { diff: boolean; color: boolean; patches?: string[]; logger: Logger }
+): void {
+	if (!diff && !patches) {
+		return
+	}
+	const fileDiff = createUnifiedDiff(
+		path.relative(process.cwd(), filePath),
+		oldContent,
+		newContent
+	)
+	if (!fileDiff) {
+		return
+	}
+	if (diff) {
+		logger.diff(color ? colorizeDiff(fileDiff) : fileDiff, {
+			filePath,
+			diff: fileDiff
+		})
+	}
+	patches?.push(fileDiff)
+}
+
+/**
+ * Updates imports in a file to point directly to source files instead of using barrel files
+ *
+ * This function:
+ * 1. Parses the file's AST to find imports from the package
+ * 2. For each import, finds the source file containing the export
+ * 3. Updates the import to point directly to the source file
+ * 4. Preserves original import names and types
+ * 5. Only modifies the file if changes are needed
+ *
+ * @param {UpdateImportsParams} params - Parameters for updating imports
+ * @returns {Promise<void>}
+ */
+async function updateImports({
+	filePath,
+	packageName,
+	packagePath,
+	packageJson,
+	entryFile,
+	requiredSubpaths,
+	tsConfigCache,
+	exports,
+	importExtension = 'source',
+	packageTypeCache,
+	relativeImports = false,
+	pinnedExports = {},
+	sortImports,
+	mergeImports = false,
+	dryRun = false,
+	pendingChanges,
 	warnings,
-	stats
+	rewrites,
+	unresolved,
+	ambiguous,
+	skippedFiles,
+	stats,
+	parseCache,
+	logger = createLogger()
 }: UpdateImportsParams): Promise<void> {
-	console.log(`\nProcessing file: ${filePath}`)
-	const content = await readFile(filePath, 'utf-8')
+	logger.debug(`\nProcessing file: ${filePath}`, { filePath })
 	let modified = false
 
-	try {
-		const ast = parse(content, BABEL_CONFIG)
-		const importDeclarations: ImportDeclaration[] = []
+	try {
+		const { content, asts } = await parseFile(
+			filePath,
+			parseCache,
+			pendingChanges
+		)
+		const context: PackageImportContext = {
+			packageName,
+			packagePath,
+			packageJson,
+			entryFile,
+			requiredSubpaths,
+			barrelFiles: getBarrelFiles(exports),
+			packageFiles: new Set(exports.map((exportInfo) => exportInfo.source)),
+			aliases:
+				packagePath && tsConfigCache
+					? await findPathAliases(filePath, tsConfigCache)
+					: [],
+			importerFile: relativeImports
+				? getPackageFile(filePath, packagePath)
+				: undefined
+		}
+		// CommonJS files resolve imports without extensions, so only ES modules import emitted `.js` files
+		const extension: ImportExtension =
+			importExtension === 'js-emitted' &&
+			!(await isEsModule(filePath, packageTypeCache))
+				? 'none'
+				: importExtension
+		// Rewrites are applied to the original text, so untouched code keeps its formatting
+		const edits: TextEdit[] = []
+		const lineBreak = getLineBreak(content)
+		const replaceNode = (node: Node, text: string): void => {
+			edits.push({ start: node.start ?? 0, end: node.end ?? 0, text })
+		}
+		const getQuotes = (literal: Node): 'single' | 'double' =>
+			content[literal.start ?? 0] === "'" ? 'single' : 'double'
+		const printSource = (source: string, literal: Node): string =>
+			generate(stringLiteral(source), {
+				jsescOption: { quotes: getQuotes(literal) }
+			}).code
+
+		/**
+		 * Prints statements that replace an original statement, in its quote, semicolon and indentation style
+		 */
+		const printStatements = (
+			statements: Statement[],
+			original: Node,
+			literal: Node
+		): string => {
+			const hasSemicolon = content[(original.end ?? 0) - 1] === ';'
+			const indentation = getIndentation(content, original.start ?? 0)
+			return statements
+				.map((statement) => {
+					const { code } = generate(statement, {
+						jsescOption: { quotes: getQuotes(literal) }
+					})
+					return (hasSemicolon ? code : code.replace(/;$/, ''))
+						.split('\n')
+						.join(lineBreak + indentation)
+				})
+				.join(lineBreak + indentation)
+		}
+
+		// Names whose file is not exposed by package.json `exports` stay on the barrel
+		const warnUnexposedFile = (
+			importName: string,
+			sourceFile: string
+		): void => {
+			warnings?.push(
+				`Could not migrate "${importName}" in ${filePath}: no exported subpath of ${packageName} reaches ${sourceFile}`
+			)
+		}
+
+		const warnUnresolvedName = (importName: string, source: string): void => {
+			warnings?.push(
+				`Could not resolve "${importName}" to a source file in ${filePath}`
+			)
+			unresolved?.push({ filePath, name: importName, source })
+		}
+
+		const reportAmbiguousName = (
+			importName: string,
+			source: string,
+			candidates: string[]
+		): void => {
+			ambiguous?.push({ filePath, name: importName, source, candidates })
+		}
+
+		// Each script block of Vue, Svelte, Astro and MDX files is a module of its own
+		for (const ast of asts) {
+			const importDeclarations: ImportDeclaration[] = []
+			// Imports of other modules, which migrated names can be merged into
+			const otherImportDeclarations: ImportDeclaration[] = []
+			const importMatches = new Map<ImportDeclaration, PackageImportMatch>()
+			const reExportMatches = new Map<
+				ExportNamedDeclaration | ExportAllDeclaration,
+				PackageImportMatch
+			>()
+			const dynamicImportMatches = new Map<
+				NodePath<CallExpression>,
+				PackageImportMatch
+			>()
+			const mockMatches = new Map<
+				NodePath<CallExpression>,
+				PackageImportMatch
+			>()
+			// Names the file exports itself or re-exports by name, which shadow names from `export *`
+			const localExportNames = new Set<string>()
+
+			// First pass: collect all import declarations and re-exports
+			traverse(ast, {
+				ImportDeclaration(path: NodePath<ImportDeclaration>) {
+					const importMatch = matchPackageImport(
+						path.node.source.value,
+						context
+					)
+					if (importMatch) {
+						importDeclarations.push(path.node)
+						importMatches.set(path.node, importMatch)
+					} else {
+						otherImportDeclarations.push(path.node)
+					}
+				},
+				ExportNamedDeclaration(path: NodePath<ExportNamedDeclaration>) {
+					const { source, declaration, specifiers } = path.node
+					for (const specifier of specifiers) {
+						const { exported } = specifier
+						localExportNames.add(
+							isIdentifier(exported) ? exported.name : exported.value
+						)
+					}
+					const importMatch =
+						source && matchPackageImport(source.value, context)
+					if (importMatch) {
+						reExportMatches.set(path.node, importMatch)
+						return
+					}
+					for (const name of getExportNames(declaration)) {
+						localExportNames.add(name)
+					}
+				},
+				ExportAllDeclaration(path: NodePath<ExportAllDeclaration>) {
+					const importMatch = matchPackageImport(
+						path.node.source.value,
+						context
+					)
+					if (importMatch) {
+						reExportMatches.set(path.node, importMatch)
+					}
+				},
+				CallExpression(path: NodePath<CallExpression>) {
+					const source = getDynamicImportSource(path)
+					const importMatch = source && matchPackageImport(source, context)
+					if (importMatch) {
+						dynamicImportMatches.set(path, importMatch)
+					}
+
+					const mockSource = getMockSource(path.node)
+					const mockMatch =
+						mockSource && matchPackageImport(mockSource, context)
+					if (mockMatch) {
+						mockMatches.set(path, mockMatch)
+					}
+				}
+			})
+
+			const importsBySource = new Map<string, ImportSpec[]>()
+			// Each source is imported where the first barrel import of one of its names was
+			const sourceDeclarations = new Map<string, ImportDeclaration>()
+			const remainingByDeclaration = new Map<
+				ImportDeclaration,
+				{ source: string; specifiers: ImportDeclaration['specifiers'] }
+			>()
+
+			// Names already imported from the package, reused when expanding namespace imports
+			const importedLocals = new Map<string, string>()
+			for (const declaration of importDeclarations) {
+				for (const specifier of declaration.specifiers) {
+					if (
+						isImportSpecifier(specifier) &&
+						isIdentifier(specifier.imported)
+					) {
+						importedLocals.set(specifier.imported.name, specifier.local.name)
+					}
+				}
+			}
+
+			let usedNames: Set<string> | undefined
+			const getUniqueName = (name: string, namespaceName: string): string => {
+				if (!usedNames) {
+					const names = new Set<string>()
+					traverse(ast, {
+						// Property keys and member names do not conflict with local names
+						Identifier(nodePath) {
+							const { parentPath } = nodePath
+							const isQualifiedMember =
+								parentPath.isTSQualifiedName() &&
+								parentPath.node.right === nodePath.node
+							if (
+								!isQualifiedMember &&
+								(nodePath.isReferenced() ||
+									isBinding(nodePath.node, nodePath.parent))
+							) {
+								names.add(nodePath.node.name)
+							}
+						},
+						JSXIdentifier(nodePath) {
+							if (nodePath.isReferencedIdentifier()) {
+								names.add(nodePath.node.name)
+							}
+						}
+					})
+					usedNames = names
+				}
+
+				let uniqueName = name
+				for (let index = 2; usedNames.has(uniqueName); index++) {
+					const prefixedName = `${namespaceName}${name.charAt(0).toUpperCase()}${name.slice(1)}`
+					uniqueName =
+						index === 2 ? prefixedName : `${prefixedName}${index - 1}`
+				}
+				usedNames.add(uniqueName)
+				return uniqueName
+			}
+
+			/**
+			 * Replaces a namespace import with named imports of the members it accesses
+			 */
+			const expandNamespaceImport = (
+				specifier: ImportNamespaceSpecifier
+			): Array<ImportSpecifier | ImportNamespaceSpecifier> => {
+				const namespaceName = specifier.local.name
+				const members = collectNamespaceMembers(ast, namespaceName)
+				if (!members) {
+					warnings?.push(
+						`Could not migrate namespace import "${namespaceName}" in ${filePath}: it is used other than through member access`
+					)
+					return [specifier]
+				}
+				if (members.size === 0) {
+					return [specifier]
+				}
+
+				const namedSpecifiers: ImportSpecifier[] = []
+				for (const [memberName, member] of members) {
+					const existingLocal = importedLocals.get(memberName)
+					const localName =
+						existingLocal ?? getUniqueName(memberName, namespaceName)
+
+					for (const memberPath of member.paths) {
+						// The AST is updated as well, for statements printed from clones of its nodes
+						replaceNode(memberPath.node, localName)
+						memberPath.replaceWith(
+							memberPath.isJSXMemberExpression()
+								? jsxIdentifier(localName)
+								: identifier(localName)
+						)
+					}
+
+					if (!existingLocal) {
+						const namedSpecifier = importSpecifier(
+							identifier(localName),
+							identifier(memberName)
+						)
+						if (member.isType) {
+							namedSpecifier.importKind = 'type'
+						}
+						importedLocals.set(memberName, localName)
+						namedSpecifiers.push(namedSpecifier)
+					}
+				}
+				return namedSpecifiers
+			}
+
+			const recordRewrite = (
+				name: string,
+				loc: SourceLocation | null | undefined,
+				source: string,
+				target: string
+			): void => {
+				if (source !== target) {
+					rewrites?.push({
+						filePath,
+						line: loc?.start.line ?? 0,
+						column: (loc?.start.column ?? 0) + 1,
+						name,
+						source,
+						target
+					})
+				}
+			}
+
+			// Barrel imports that are reprinted, because names were migrated or namespaces expanded
+			const modifiedDeclarations = new Set<ImportDeclaration>()
+
+			// Module specifiers of package files, as opposed to the package itself or external packages
+			const directImportPaths = new Set<string>()
+
+			/**
+			 * Resolves the default export of a barrel file to the module that declares it
+			 *
+			 * Returns undefined if the barrel file declares its default export itself.
+			 */
+			const resolveDefaultExport = (
+				barrelFile: string | undefined,
+				alias?: PathAlias
+			): ResolvedName | undefined => {
+				const barrelExports = exports.find(
+					(exportInfo) => exportInfo.source === barrelFile
+				)
+				const declaringFile = barrelExports?.exportSources?.default
+				if (
+					!barrelExports?.defaultExports?.includes('default') ||
+					!declaringFile
+				) {
+					return undefined
+				}
+				const sourcePath = getDirectImportPath(
+					declaringFile,
+					context,
+					extension,
+					alias
+				)
+				if (!sourcePath) {
+					warnUnexposedFile('default', declaringFile)
+					return undefined
+				}
+				directImportPaths.add(sourcePath)
+				return { sourcePath, isDefault: true, isDeclaringFile: true }
+			}
+
+			/**
+			 * Resolves a name to the file it is pinned to with `pinnedExports`
+			 */
+			const resolvePinnedName = (
+				importName: string,
+				pinnedFile: string,
+				alias?: PathAlias
+			): ResolvedName | undefined => {
+				const pinnedInfo = exports.find(
+					(exportInfo) => exportInfo.source === pinnedFile
+				)
+				if (!pinnedInfo?.exports.includes(importName)) {
+					warnings?.push(
+						`Could not migrate "${importName}" in ${filePath}: it is pinned to ${pinnedFile}, which does not export it`
+					)
+					return undefined
+				}
+				const sourcePath = getDirectImportPath(
+					pinnedFile,
+					context,
+					extension,
+					alias
+				)
+				if (!sourcePath) {
+					warnUnexposedFile(importName, pinnedFile)
+					return undefined
+				}
+				directImportPaths.add(sourcePath)
+				return { sourcePath, isDeclaringFile: true }
+			}
+
+			/**
+			 * Finds the export information of a name the barrel file of the import does not expose
+			 *
+			 * Without a re-export chain to follow, the name has to be declared by a single
+			 * file that is not ignored. Otherwise the name is reported and undefined returned.
+			 */
+			const findDeclaringExport = (
+				importName: string,
+				originalSource: string
+			): ExportInfo | undefined => {
+				const exportInfos = exports.filter((exportInfo) =>
+					exportInfo.exports.includes(importName)
+				)
+				if (exportInfos.length === 0) {
+					warnUnresolvedName(importName, originalSource)
+					return undefined
+				}
+				const includedInfos = exportInfos.filter(
+					(exportInfo) => !exportInfo.isIgnored
+				)
+				const declaringFiles = new Set(
+					includedInfos.flatMap(
+						(exportInfo) =>
+							exportInfo.ambiguousExports?.[importName] ?? [
+								exportInfo.reExports?.[importName] ??
+									exportInfo.exportSources?.[importName] ??
+									exportInfo.source
+							]
+					)
+				)
+				if (declaringFiles.size > 1) {
+					reportAmbiguousName(importName, originalSource, [...declaringFiles])
+					return undefined
+				}
+				return includedInfos[0] ?? exportInfos[0]
+			}
+
+			/**
+			 * Resolves a name from the package to the module specifier to import it from
+			 *
+			 * Pinned names come from the file they are pinned to. Other names follow the
+			 * re-export chain of the barrel file the import goes through. Names the package
+			 * entry does not expose are not part of its public API and reported as unresolved,
+			 * while names other barrel files do not expose are looked up in every file of the
+			 * package. Names imported from a package file that is not a barrel file stay on
+			 * that file. Returns undefined for names that stay on the original module specifier.
+			 */
+			const resolveName = (
+				importName: string,
+				originalSource: string,
+				alias?: PathAlias,
+				barrelFile?: string,
+				packageFile?: string
+			): ResolvedName | undefined => {
+				if (packageFile !== undefined) {
+					const fileExports = exports.find(
+						(exportInfo) => exportInfo.source === packageFile
+					)
+					if (
+						importName !== 'default' &&
+						!fileExports?.exports.includes(importName)
+					) {
+						warnUnresolvedName(importName, originalSource)
+					}
+					return undefined
+				}
+				if (importName === 'default') {
+					return resolveDefaultExport(barrelFile, alias)
+				}
+				const pinnedFile = pinnedExports[importName]
+				if (pinnedFile !== undefined) {
+					return resolvePinnedName(importName, pinnedFile, alias)
+				}
+				const barrelExports = exports.find(
+					(exportInfo) =>
+						exportInfo.source === barrelFile &&
+						exportInfo.exports.includes(importName)
+				)
+				const ambiguousFiles = barrelExports?.ambiguousExports?.[importName]
+				if (ambiguousFiles) {
+					reportAmbiguousName(importName, originalSource, ambiguousFiles)
+					return undefined
+				}
+				// Names the entry file does not expose are not part of the public API of the package
+				if (
+					!barrelExports &&
+					barrelFile !== undefined &&
+					barrelFile === entryFile
+				) {
+					if (
+						exports.some((exportInfo) =>
+							exportInfo.exports.includes(importName)
+						)
+					) {
+						warnings?.push(
+							`Could not migrate "${importName}" in ${filePath}: it is not exported by ${entryFile}, the entry of ${packageName}`
+						)
+						unresolved?.push({
+							filePath,
+							name: importName,
+							source: originalSource
+						})
+					} else {
+						warnUnresolvedName(importName, originalSource)
+					}
+					return undefined
+				}
+				const exportInfo =
+					barrelExports ?? findDeclaringExport(importName, originalSource)
+				if (!exportInfo) {
+					return undefined
+				}
+				if (exportInfo.isIgnored) {
+					return undefined
+				}
+
+				// Keep the original import from an external package
+				const reExportSource = exportInfo.reExports?.[importName]
+				if (reExportSource && !reExportSource.startsWith('.')) {
+					return { sourcePath: reExportSource }
+				}
+
+				// Names re-exported by a barrel resolve to the file that declares them
+				const resolvedSource = exportInfo.exportSources?.[importName]
+				const isReExported =
+					resolvedSource !== undefined && resolvedSource !== exportInfo.source
 
-		// First pass: collect all import declarations
-		traverse(ast, {
-			ImportDeclaration(path: NodePath<ImportDeclaration>) {
-				const importSource = path.node.source.value
-				if (importSource.startsWith(packageName)) {
-					importDeclarations.push(path.node)
+				// Then check if it's a direct export from the entry file
+				if (
+					exportInfo.source === entryFile &&
+					!isReExported &&
+					!exportInfo.reExports?.[importName]
+				) {
+					// For entities that are exported as default, import directly from the package
+					if (exportInfo.defaultExportNames?.includes(importName)) {
+						return { sourcePath: originalSource }
+					}
+
+					// For each named export from the entry file, create a separate import source path
+					if (importName !== 'default') {
+						const sourcePath = getDirectImportPath(
+							exportInfo.source,
+							context,
+							extension,
+							alias
+						)
+						if (!sourcePath) {
+							warnUnexposedFile(importName, exportInfo.source)
+							return undefined
+						}
+						directImportPaths.add(sourcePath)
+						return { sourcePath }
+					}
 				}
-			}
-		})
 
-		const importsBySource = new Map<string, ImportSpec[]>()
-		const remainingSpecifiers: Array<
-			ImportSpecifier | ImportDefaultSpecifier | ImportNamespaceSpecifier
-		> = []
+				const declaringFile = resolvedSource ?? exportInfo.source
+				const sourcePath = getDirectImportPath(
+					declaringFile,
+					context,
+					extension,
+					alias
+				)
+				if (!sourcePath) {
+					warnUnexposedFile(importName, declaringFile)
+					return undefined
+				}
+				directImportPaths.add(sourcePath)
+				return {
+					sourcePath,
+					isNamespace:
+						isReExported && exportInfo.namespaceExports?.includes(importName),
+					isDefault:
+						isReExported && exportInfo.defaultExports?.includes(importName),
+					isDeclaringFile: true
+				}
+			}
 
-		for (const declaration of importDeclarations) {
-			const specifiers = declaration.specifiers
+			for (const declaration of importDeclarations) {
+				const specifiers = declaration.specifiers.flatMap(
+					(specifier): ImportDeclaration['specifiers'] =>
+						isImportNamespaceSpecifier(specifier)
+							? expandNamespaceImport(specifier)
+							: [specifier]
+				)
+				const isTypeOnly = declaration.importKind === 'type'
+				const { alias, barrelFile, packageFile, isRelative } =
+					importMatches.get(declaration) ?? {}
+				// Imports through path aliases, relative imports and imports of package files keep their module specifier when they cannot be migrated
+				const originalSource =
+					alias || isRelative || !barrelFile
+						? declaration.source.value
+						: packageName
+				const remaining: ImportDeclaration['specifiers'] = []
+				remainingByDeclaration.set(declaration, {
+					source: originalSource,
+					specifiers: remaining
+				})
+				// Expanded namespace imports change the declaration even if no name is migrated
+				let isDeclarationModified =
+					specifiers.length !== declaration.specifiers.length ||
+					specifiers.some(
+						(specifier) => !declaration.specifiers.includes(specifier)
+					)
 
-			for (const specifier of specifiers) {
-				if (isImportSpecifier(specifier)) {
-					const imported = specifier.imported
+				for (const specifier of specifiers) {
+					if (isImportNamespaceSpecifier(specifier)) {
+						remaining.push(specifier)
+						continue
+					}
+					// Default imports resolve through the barrel file to the module that declares them
+					const imported = isImportSpecifier(specifier)
+						? specifier.imported
+						: identifier('default')
 					const importName = isIdentifier(imported)
 						? imported.name
 						: imported.value
-					const exportInfo = exports.find((e) => e.exports.includes(importName))
+					const resolvedName = resolveName(
+						importName,
+						originalSource,
+						alias,
+						barrelFile,
+						packageFile
+					)
+					// Names imported from the file that declares them are already migrated
+					if (
+						!resolvedName ||
+						resolvedName.sourcePath === declaration.source.value
+					) {
+						remaining.push(specifier)
+						continue
+					}
+
+					// Check if this import is aliased and if we already have the original import
+					const isAliased = specifier.local.name !== importName
+					const hasOriginalImport = Array.from(importsBySource.values()).some(
+						(specs) =>
+							specs.some(
+								(spec) =>
+									spec.imported &&
+									isIdentifier(spec.imported) &&
+									spec.imported.name === importName
+							)
+					)
+
+					// Only add the import if it's not aliased or if we don't have the original import yet
+					if (resolvedName.isDeclaringFile && isAliased && hasOriginalImport) {
+						isDeclarationModified = true
+						continue
+					}
+
+					const { sourcePath, isNamespace, isDefault } = resolvedName
+					if (!importsBySource.has(sourcePath)) {
+						importsBySource.set(sourcePath, [])
+						sourceDeclarations.set(sourcePath, declaration)
+					}
+					importsBySource.get(sourcePath)?.push({
+						local: specifier.local,
+						imported,
+						isTypeOnly,
+						isType:
+							isImportSpecifier(specifier) && specifier.importKind === 'type',
+						isNamespace,
+						isDefault
+					})
+					// Specifiers created from namespace members have no location of their own
+					recordRewrite(
+						importName,
+						specifier.loc ?? declaration.loc,
+						declaration.source.value,
+						sourcePath
+					)
+					isDeclarationModified = true
+				}
+
+				if (isDeclarationModified) {
+					modifiedDeclarations.add(declaration)
+					modified = true
+				}
+			}
 
-					if (exportInfo) {
-						if (exportInfo.isIgnored) {
-							remainingSpecifiers.push(specifier)
+			// Re-exports are rewritten in place, expanding `export *` into the names it forwards
+			for (const [
+				declaration,
+				{ alias, barrelFile, packageFile }
+			] of reExportMatches) {
+				const isTypeOnly = declaration.exportKind === 'type'
+				const originalSource = declaration.source?.value ?? packageName
+				let specs: ReExportSpec[]
+
+				if (isExportAllDeclaration(declaration)) {
+					const barrelExports = exports.find(
+						(exportInfo) => exportInfo.source === barrelFile
+					)
+					if (!barrelExports) {
+						warnings?.push(
+							`Could not migrate "export * from '${originalSource}'" in ${filePath}: the barrel file could not be found`
+						)
+						continue
+					}
+					// `export *` never forwards default exports or names the file exports itself or re-exports by name
+					specs = barrelExports.exports
+						.filter(
+							(name) =>
+								name !== 'default' &&
+								!barrelExports.defaultExportNames?.includes(name) &&
+								!localExportNames.has(name)
+						)
+						.map((name) => ({
+							local: identifier(name),
+							exported: identifier(name),
+							isTypeOnly,
+							isType: barrelExports.typeExports?.includes(name)
+						}))
+				} else {
+					specs = []
+					for (const specifier of declaration.specifiers) {
+						if (!isExportSpecifier(specifier)) {
+							warnings?.push(
+								`Could not migrate namespace re-export from "${originalSource}" in ${filePath}`
+							)
 							continue
 						}
+						specs.push({
+							local: specifier.local,
+							exported: specifier.exported,
+							isTypeOnly,
+							isType: specifier.exportKind === 'type'
+						})
+					}
+				}
 
-						// Check if this is a re-export from an external package
-						if (exportInfo.reExports?.[importName]) {
-							const reExportSource = exportInfo.reExports[importName]
-							if (!reExportSource.startsWith('.')) {
-								// Keep the original import from the external package
-								const sourcePath = reExportSource
-								if (!importsBySource.has(sourcePath)) {
-									importsBySource.set(sourcePath, [])
-								}
-								importsBySource.get(sourcePath)?.push({
-									local: specifier.local,
-									imported: specifier.imported
-								})
-								modified = true
-								continue
-							}
-						}
+				// Packages the barrel forwards with `export *` are forwarded directly, as their names are not known
+				const externalStarSources = isExportAllDeclaration(declaration)
+					? (exports.find((exportInfo) => exportInfo.source === barrelFile)
+							?.externalStarSources ?? [])
+					: []
 
-						// Then check if it's a direct export from index.ts
-						if (
-							exportInfo.source === 'src/index.ts' &&
-							exportInfo.exports.includes(importName) &&
-							!exportInfo.reExports?.[importName]
-						) {
-							// Handle entities that are exported as default
-							const isDefaultExportedEntity =
-								exportInfo.defaultExportNames?.includes(importName)
-
-							if (isDefaultExportedEntity) {
-								// For entities that are exported as default, import directly from the package
-								const sourcePath = packageName
-								if (!importsBySource.has(sourcePath)) {
-									importsBySource.set(sourcePath, [])
-								}
-								importsBySource.get(sourcePath)?.push({
-									local: specifier.local,
-									imported: specifier.imported
-								})
-								modified = true
-								continue
-							}
+				const specsBySource = new Map<string, ReExportSpec[]>()
+				const remaining: ReExportSpec[] = []
+				for (const spec of specs) {
+					const resolvedName = resolveName(
+						spec.local.name,
+						originalSource,
+						alias,
+						barrelFile,
+						packageFile
+					)
+					// Namespaces can only be re-exported under identifier names
+					if (
+						!resolvedName ||
+						(resolvedName.isNamespace && !isIdentifier(spec.exported))
+					) {
+						remaining.push(spec)
+						continue
+					}
+					const sourceSpecs = specsBySource.get(resolvedName.sourcePath) ?? []
+					sourceSpecs.push({
+						...spec,
+						isNamespace: resolvedName.isNamespace,
+						isDefault: resolvedName.isDefault
+					})
+					specsBySource.set(resolvedName.sourcePath, sourceSpecs)
+					recordRewrite(
+						spec.local.name,
+						spec.local.loc ?? declaration.loc,
+						originalSource,
+						resolvedName.sourcePath
+					)
+				}
 
-							// Check if this is a named export or default export
-							if (importName !== 'default') {
-								// For each named export from index.ts, create a separate import source path
-								const sourcePath = includeExtension
-									? `${packageName}/${exportInfo.source}`
-									: `${packageName}/${exportInfo.source.replace(/\.[^/.]+$/, '')}`
+				if (specsBySource.size === 0) {
+					continue
+				}
 
-								if (!importsBySource.has(sourcePath)) {
-									importsBySource.set(sourcePath, [])
-								}
-								importsBySource.get(sourcePath)?.push({
-									local: specifier.local,
-									imported: specifier.imported
-								})
-								modified = true
-								continue
-							}
-						}
+				const replacement: Array<
+					ExportNamedDeclaration | ExportAllDeclaration
+				> = []
+				for (const [source, sourceSpecs] of specsBySource) {
+					replacement.push(...createExportDeclarations(sourceSpecs, source))
+					if (stats) {
+						stats.importsMigrated += sourceSpecs.length
+					}
+				}
+				// Namespace re-exports that could not be migrated stay as they were
+				const namespaceSpecifiers = isExportAllDeclaration(declaration)
+					? []
+					: declaration.specifiers.filter(
+							(specifier) => !isExportSpecifier(specifier)
+						)
+				for (const specifier of namespaceSpecifiers) {
+					const namespaceDeclaration = exportNamedDeclaration(
+						null,
+						[specifier],
+						stringLiteral(originalSource)
+					)
+					namespaceDeclaration.exportKind = declaration.exportKind
+					replacement.push(namespaceDeclaration)
+				}
+				replacement.push(...createExportDeclarations(remaining, originalSource))
+				for (const source of externalStarSources) {
+					const starDeclaration = exportAllDeclaration(stringLiteral(source))
+					starDeclaration.exportKind = declaration.exportKind
+					replacement.push(starDeclaration)
+					recordRewrite('*', declaration.loc, originalSource, source)
+				}
 
-						// Find the best source file for this export
-						const exportFilesList = exportInfo.exportFiles?.[importName] || []
-						let bestSourceFile = exportFilesList[0] // Default to first file if no better option
-
-						// Prefer main source files over auxiliary files
-						if (exportFilesList.length > 1) {
-							// Remove story files, test files, and other auxiliary files from consideration
-							const mainFiles = exportFilesList.filter(
-								(file: string) =>
-									!file.includes('.stories.') &&
-									!file.includes('.test.') &&
-									!file.includes('.spec.') &&
-									!file.includes('.stories/') &&
-									!file.includes('.test/') &&
-									!file.includes('.spec/')
-							)
+				replaceNode(
+					declaration,
+					printStatements(
+						replacement,
+						declaration,
+						declaration.source ?? declaration
+					)
+				)
+				modified = true
+			}
+
+			// Module mocks follow the names they cover to the files that declare them
+			const mockLoaderCalls = new Set<CallExpression>()
+			for (const [
+				mockPath,
+				{ alias, barrelFile, packageFile }
+			] of mockMatches) {
+				const originalSource = getMockSource(mockPath.node) ?? packageName
+				const location = `${filePath}:${mockPath.node.loc?.start.line ?? 0}`
+				const [, factory] = mockPath.node.arguments
+				const statementPath = mockPath.parentPath
+				const mockName = generate(mockPath.node.callee).code
 
-							if (mainFiles.length > 0) {
-								bestSourceFile = mainFiles[0]
+				/**
+				 * Copies the mock call for another module, retargeting loaders spread into its factory
+				 */
+				const createMock = (
+					source: string,
+					names?: Set<string>
+				): CallExpression => {
+					const mock = cloneNode(mockPath.node)
+					mock.arguments[0] = stringLiteral(source)
+					const factoryObject = getFactoryObject(mock.arguments[1])
+					if (factoryObject && names) {
+						factoryObject.properties = factoryObject.properties.filter(
+							(property) => {
+								if (isSpreadElement(property)) {
+									return true
+								}
+								const name = getPropertyName(property)
+								return (
+									name !== undefined &&
+									(name === '__esModule' || names.has(name))
+								)
 							}
+						)
+					}
+					for (const property of factoryObject?.properties ?? []) {
+						const loader = isSpreadElement(property)
+							? getSpreadLoader(property.argument)
+							: undefined
+						if (loader) {
+							loader.arguments[0] = stringLiteral(source)
 						}
+					}
+					return mock
+				}
 
-						if (bestSourceFile) {
-							const sourcePath = includeExtension
-								? `${packageName}/${bestSourceFile}`
-								: `${packageName}/${bestSourceFile.replace(/\.[^/.]+$/, '')}`
-
-							// Check if this import is aliased and if we already have the original import
-							const isAliased = specifier.local.name !== importName
-							const hasOriginalImport = Array.from(
-								importsBySource.values()
-							).some((specs) =>
-								specs.some(
-									(spec) =>
-										spec.imported &&
-										isIdentifier(spec.imported) &&
-										spec.imported.name === importName
+				/**
+				 * Replaces the mock with one mock per module
+				 *
+				 * A mock of a single module keeps its code and only changes its module specifiers.
+				 */
+				const replaceMock = (
+					targets: Array<{ source: string; names?: Set<string> }>
+				): void => {
+					const [sourceLiteral, mockFactory] = mockPath.node.arguments
+					const [target] = targets
+					if (targets.length === 1 && target && sourceLiteral) {
+						replaceNode(
+							sourceLiteral,
+							printSource(target.source, sourceLiteral)
+						)
+						for (const property of getFactoryObject(mockFactory)?.properties ??
+							[]) {
+							const loader = isSpreadElement(property)
+								? getSpreadLoader(property.argument)
+								: undefined
+							const [loaderLiteral] = loader?.arguments ?? []
+							if (loaderLiteral) {
+								replaceNode(
+									loaderLiteral,
+									printSource(target.source, loaderLiteral)
 								)
-							)
-
-							// Only add the import if it's not aliased or if we don't have the original import yet
-							if (!isAliased || !hasOriginalImport) {
-								if (!importsBySource.has(sourcePath)) {
-									importsBySource.set(sourcePath, [])
-								}
-								importsBySource.get(sourcePath)?.push({
-									local: specifier.local,
-									imported: specifier.imported
-								})
-								modified = true
 							}
-							continue
 						}
-
-						// Could not resolve this import to a source file
-						if (warnings) {
-							warnings.push(
-								`Could not resolve "${importName}" to a source file in ${filePath}`
+					} else {
+						replaceNode(
+							statementPath.node,
+							printStatements(
+								targets.map(({ source, names }) =>
+									expressionStatement(createMock(source, names))
+								),
+								statementPath.node,
+								sourceLiteral ?? statementPath.node
 							)
-						}
-						remainingSpecifiers.push(specifier)
+						)
+					}
+					modified = true
+				}
+
+				// Automocks cover the files the names imported by this file now come from
+				if (!isFunction(factory)) {
+					const sources = Array.from(importsBySource.keys()).filter((source) =>
+						directImportPaths.has(source)
+					)
+					if (sources.length === 0) {
+						warnings?.push(
+							`Could not migrate mock of "${originalSource}" at ${location}: no direct imports of its names were found, migrate it manually`
+						)
 					} else if (
-						isImportDefaultSpecifier(specifier) ||
-						isImportNamespaceSpecifier(specifier)
+						sources.length === 1 ||
+						statementPath.isExpressionStatement()
 					) {
-						remainingSpecifiers.push(specifier)
+						replaceMock(sources.map((source) => ({ source })))
+						for (const source of sources) {
+							recordRewrite(mockName, mockPath.node.loc, originalSource, source)
+						}
+					} else {
+						warnings?.push(
+							`Could not split mock of "${originalSource}" at ${location}: it is not a standalone statement`
+						)
 					}
+					continue
+				}
+
+				const factoryObject = getFactoryObject(factory)
+				const namesBySource = new Map<string, Set<string>>()
+				let isSplittable = factoryObject !== undefined
+				for (const property of factoryObject?.properties ?? []) {
+					if (isSpreadElement(property)) {
+						// `...(await vi.importActual('pkg'))` is kept in every split mock
+						const loader = getSpreadLoader(property.argument)
+						if (loader && getMockLoaderSource(loader) === originalSource) {
+							mockLoaderCalls.add(loader)
+						} else {
+							isSplittable = false
+						}
+						continue
+					}
+
+					const name = getPropertyName(property)
+					if (name === undefined) {
+						isSplittable = false
+						continue
+					}
+					if (name === '__esModule') {
+						continue
+					}
+					const resolvedName = resolveName(
+						name,
+						originalSource,
+						alias,
+						barrelFile,
+						packageFile
+					)
+					// Names the declaring file exports as its default are not named exports of it
+					const source =
+						resolvedName && (!resolvedName.isDefault || name === 'default')
+							? resolvedName.sourcePath
+							: originalSource
+					const names = namesBySource.get(source) ?? new Set()
+					names.add(name)
+					namesBySource.set(source, names)
+				}
+
+				if (!isSplittable || namesBySource.size === 0) {
+					warnings?.push(
+						`Could not migrate factory mock of "${originalSource}" at ${location}: its factory cannot be split automatically, migrate it manually`
+					)
+					continue
+				}
+				if (namesBySource.size > 1 && !statementPath.isExpressionStatement()) {
+					warnings?.push(
+						`Could not split mock of "${originalSource}" at ${location}: it is not a standalone statement`
+					)
+					continue
+				}
+				if (namesBySource.size === 1 && namesBySource.has(originalSource)) {
+					continue
 				}
-			}
-		}
 
-		// Second pass: update the AST with new imports
-		traverse(ast, {
-			ImportDeclaration(path: NodePath<ImportDeclaration>) {
-				const importSource = path.node.source.value
-				if (importSource.startsWith(packageName)) {
-					// Remove the original import declaration
-					path.remove()
+				replaceMock(
+					Array.from(namesBySource, ([source, names]) => ({ source, names }))
+				)
+				for (const [source, names] of namesBySource) {
+					for (const name of names) {
+						recordRewrite(name, mockPath.node.loc, originalSource, source)
+					}
 				}
 			}
-		})
 
-		// Add new import declarations
-		const newImports: ImportDeclaration[] = []
-		for (const [source, specifiers] of importsBySource) {
-			if (specifiers.length > 0) {
-				newImports.push(
-					importDeclaration(
-						specifiers.map(({ local, imported }) =>
-							importSpecifier(local, imported)
-						),
-						stringLiteral(source)
+			// Dynamic imports and requires are retargeted, or split when they destructure names from several files
+			for (const [
+				callPath,
+				{ alias, barrelFile, packageFile }
+			] of dynamicImportMatches) {
+				// Loaders spread into mock factories move with their mock
+				if (mockLoaderCalls.has(callPath.node)) {
+					continue
+				}
+				const originalSource = getDynamicImportSource(callPath) ?? packageName
+				const location = `${filePath}:${callPath.node.loc?.start.line ?? 0}`
+				const usage = collectDynamicImportNames(callPath)
+				if (!usage || usage.names.length === 0) {
+					warnings?.push(
+						`Could not migrate dynamic import of "${originalSource}" at ${location}: the module is not destructured or read by name, migrate it manually`
+					)
+					continue
+				}
+
+				const sourceByName = new Map<string, string>()
+				for (const name of usage.names) {
+					const resolvedName = resolveName(
+						name,
+						originalSource,
+						alias,
+						barrelFile,
+						packageFile
+					)
+					// Namespace re-exports and default exports under other names are not names of the declaring file
+					sourceByName.set(
+						name,
+						resolvedName &&
+							!resolvedName.isNamespace &&
+							(!resolvedName.isDefault || name === 'default')
+							? resolvedName.sourcePath
+							: originalSource
+					)
+				}
+				const sources = new Set(sourceByName.values())
+				const migratedCount = Array.from(sourceByName.values()).filter(
+					(source) => source !== originalSource
+				).length
+				const recordNameRewrites = (): void => {
+					for (const [name, source] of sourceByName) {
+						recordRewrite(name, callPath.node.loc, originalSource, source)
+					}
+				}
+
+				if (sources.size === 1) {
+					const [sourcePath = originalSource] = sources
+					const [sourceLiteral] = callPath.node.arguments
+					if (sourcePath !== originalSource && sourceLiteral) {
+						replaceNode(sourceLiteral, printSource(sourcePath, sourceLiteral))
+						recordNameRewrites()
+						modified = true
+						if (stats) {
+							stats.importsMigrated += migratedCount
+						}
+					}
+					continue
+				}
+
+				const { declarator, pattern } = usage
+				if (!declarator || !pattern || pattern.typeAnnotation) {
+					warnings?.push(
+						`Could not migrate dynamic import of "${originalSource}" at ${location}: its names come from several files, migrate it manually`
 					)
+					continue
+				}
+
+				const propertiesBySource = new Map<string, ObjectProperty[]>()
+				for (const property of pattern.properties) {
+					const name = isObjectProperty(property)
+						? getPropertyName(property)
+						: undefined
+					if (!isObjectProperty(property) || name === undefined) {
+						continue
+					}
+					const source = sourceByName.get(name) ?? originalSource
+					const properties = propertiesBySource.get(source) ?? []
+					properties.push(property)
+					propertiesBySource.set(source, properties)
+				}
+
+				// Split declarators are printed on one line from the original text of the pattern and call
+				const init = declarator.node.init ?? callPath.node
+				const [sourceLiteral = callPath.node] = callPath.node.arguments
+				replaceNode(
+					declarator.node,
+					Array.from(propertiesBySource, ([source, properties]) => {
+						const names = properties
+							.map((property) =>
+								content.slice(property.start ?? 0, property.end ?? 0)
+							)
+							.join(', ')
+						const loader =
+							content.slice(init.start ?? 0, sourceLiteral.start ?? 0) +
+							printSource(source, sourceLiteral) +
+							content.slice(sourceLiteral.end ?? 0, init.end ?? 0)
+						return `{ ${names} } = ${loader}`
+					}).join(', ')
 				)
+				recordNameRewrites()
+				modified = true
 				if (stats) {
-					stats.importsMigrated += specifiers.length
+					stats.importsMigrated += migratedCount
 				}
 			}
-		}
 
-		// Add remaining specifiers if any
-		if (remainingSpecifiers.length > 0) {
-			newImports.push(
-				importDeclaration(remainingSpecifiers, stringLiteral(packageName))
-			)
-		}
+			// Migrated imports take the place of the barrel import they come from
+			const mergeableImports = [
+				...otherImportDeclarations,
+				...importDeclarations.filter(
+					(declaration) => !modifiedDeclarations.has(declaration)
+				)
+			]
+			const mergedImports = new Map<ImportDeclaration, ImportDeclaration>()
+			for (const declaration of importDeclarations) {
+				if (!modifiedDeclarations.has(declaration)) {
+					continue
+				}
+
+				let newImports: ImportDeclaration[] = []
+				for (const [source, specifiers] of importsBySource) {
+					if (
+						specifiers.length > 0 &&
+						sourceDeclarations.get(source) === declaration
+					) {
+						newImports.push(...createImportDeclarations(specifiers, source))
+						if (stats) {
+							stats.importsMigrated += specifiers.length
+						}
+					}
+				}
+
+				// Add remaining specifiers if any
+				const remaining = remainingByDeclaration.get(declaration)
+				if (remaining && remaining.specifiers.length > 0) {
+					const remainingDeclaration = importDeclaration(
+						remaining.specifiers,
+						stringLiteral(remaining.source)
+					)
+					remainingDeclaration.importKind = declaration.importKind
+					newImports.push(remainingDeclaration)
+				}
+
+				if (mergeImports) {
+					newImports = newImports.filter((newImport) => {
+						const existing = findMergeableImport(newImport, mergeableImports)
+						if (!existing) {
+							return true
+						}
+						mergedImports.set(
+							existing,
+							mergeImportDeclarations(
+								mergedImports.get(existing) ?? existing,
+								newImport
+							)
+						)
+						return false
+					})
+				}
+				if (sortImports) {
+					newImports = sortImportDeclarations(newImports, sortImports)
+				}
 
-		// Add all new imports at the top of the file
-		if (newImports.length > 0) {
-			ast.program.body.unshift(...newImports)
-			modified = true
+				edits.push(
+					newImports.length > 0
+						? {
+								start: declaration.start ?? 0,
+								end: declaration.end ?? 0,
+								text: printStatements(
+									newImports,
+									declaration,
+									declaration.source
+								)
+							}
+						: createRemovalEdit(
+								content,
+								declaration.start ?? 0,
+								declaration.end ?? 0
+							)
+				)
+			}
+			for (const [existing, merged] of mergedImports) {
+				replaceNode(
+					existing,
+					printStatements([merged], existing, existing.source)
+				)
+			}
 		}
 
 		if (modified) {
-			const output = generate(
-				ast,
-				{
-					// To avoid removing spaces in code
-					retainLines: true,
-					retainFunctionParens: true
-				},
-				content
-			).code
+			// The AST no longer matches the file, or no longer matches it in dry-run mode
+			parseCache?.delete(filePath)
+
+			const output = applyTextEdits(content, edits)
+			pendingChanges?.set(filePath, {
+				original: pendingChanges.get(filePath)?.original ?? content,
+				output
+			})
 
 			if (dryRun) {
-				console.log(`[dry-run] Would update imports in ${filePath}`)
+				logger.info(`[dry-run] Would update imports in ${filePath}`, {
+					filePath
+				})
 			} else {
 				await writeFile(filePath, output)
-				console.log(`Writing changes to ${filePath}`)
+				logger.info(`Writing changes to ${filePath}`, { filePath })
 			}
 
 			if (stats) {
@@ -771,7 +3709,9 @@ async function updateImports({
 			stats.noChangesNeeded++
 		}
 	} catch (error) {
-		console.error(`Error updating imports in ${filePath}:`, error)
+		logger.error(`Error updating imports in ${filePath}`, { filePath, error })
+		parseCache?.delete(filePath)
+		addSkippedFile(skippedFiles, { filePath, kind: 'target', reason: 'error' })
 	}
 }
 
@@ -787,149 +3727,483 @@ async function updateImports({
  *    - Updates each import to point directly to source files
  *
  * @param {Options} options - Migration configuration options
- * @returns {Promise<void>}
+ * @returns {Promise<MigrationReport>} Statistics, rewrites (pending in dry-run and check mode), unresolved and ambiguous names and skipped files
  */
 export async function migrateBarrelImports(
 	options: MigrationOptions
-): Promise<void> {
+): Promise<MigrationReport> {
 	const {
 		sourcePath,
 		targetPath,
+		allWorkspaces = false,
+		include = [],
+		exclude = [],
+		ignoreSourceFiles = [],
 		ignoreTargetFiles = [],
 		includeExtension = true,
-		dryRun = false
+		importExtension,
+		relativeImports = false,
+		pinnedExports = {},
+		dryRun = false,
+		check = false,
+		diff = false,
+		patch,
+		report,
+		generateExports = false,
+		exportsWildcards = false,
+		exportsConditions = [],
+		sortImports,
+		mergeImports = false,
+		packages: packageOverrides = {},
+		concurrency = 1,
+		since,
+		staged = false,
+		logLevel = 'info',
+		logFormat = 'text'
 	} = options
+	const logger =
+		options.logger ?? createLogger({ level: logLevel, format: logFormat })
+
+	// Diffs are only colored for terminals
+	const color =
+		options.logger === undefined &&
+		logFormat === 'text' &&
+		process.stdout.isTTY &&
+		!process.env.NO_COLOR
 
 	// Track migration statistics
 	const stats: MigrationStats = {
 		sourcePackagesFound: 0,
 		sourcePackagesProcessed: 0,
 		sourcePackagesSkipped: 0,
-		sourceFilesFound: 0,
-		sourceFilesWithExports: 0,
-		sourceFilesSkipped: 0,
-		exportsFound: 0,
-		targetFilesFound: 0,
-		targetFilesProcessed: 0,
-		importsUpdated: 0,
-		noChangesNeeded: 0,
-		targetFilesSkipped: 0,
-		importsMigrated: 0
+		...createPackageStats()
 	}
 
 	// Track warnings
 	const warnings: string[] = []
 
-	if (dryRun) {
-		console.log('[dry-run] Running in dry-run mode, no files will be modified')
+	// Track rewritten module specifiers, unresolved and ambiguous names and skipped files
+	const rewrites: ImportRewrite[] = []
+	const unresolved: UnresolvedName[] = []
+	const ambiguous: AmbiguousName[] = []
+	const skippedFiles: SkippedFile[] = []
+	const packages: PackageReport[] = []
+
+	// Check mode and patch files analyze the migration like a dry run
+	const isReadOnly = dryRun || check || patch !== undefined
+
+	// Diffs of all changed files, when writing a patch
+	const patches: string[] | undefined = patch === undefined ? undefined : []
+	// Changes are only kept when they are not written, or to show their diffs
+	const pendingChanges: PendingChanges | undefined =
+		isReadOnly || diff ? new Map() : undefined
+
+	// tsconfig files and parsed files are shared between packages
+	const tsConfigCache = createTsConfigCache(logger)
+	const parseCache: ParseCache = new Map()
+	const packageTypeCache: PackageTypeCache = new Map()
+
+	if (check) {
+		logger.info('[check] Running in check mode, no files will be modified')
+	} else if (dryRun) {
+		logger.info('[dry-run] Running in dry-run mode, no files will be modified')
 	}
 
 	try {
-		// Find source packages
-		const sourcePackages = await findSourcePackages(sourcePath)
+		// Find source packages, which are only migrated once when the workspace lists them too
+		const sourcePackages = allWorkspaces
+			? [
+					...new Set([
+						...(await findWorkspacePackages(targetPath, logger)),
+						...(await findSourcePackages(sourcePath, logger))
+					])
+				]
+			: await findSourcePackages(sourcePath, logger)
 		stats.sourcePackagesFound = sourcePackages.length
 
-		for (const packagePath of sourcePackages) {
-			console.log(`\nProcessing package: ${packagePath}`)
+		// Limit target files to the ones changed in git, while export maps are still built from whole packages
+		let changedFiles: Set<string> | undefined
+		if (since !== undefined || staged) {
+			changedFiles = new Set(
+				await findChangedFiles({ cwd: targetPath, since, staged })
+			)
+			const changes = [
+				...(since === undefined ? [] : [`since ${since}`]),
+				...(staged ? ['staged'] : [])
+			].join(' or ')
+			logger.info(
+				`Limiting target files to ${changedFiles.size} files changed ${changes}`,
+				{ since, staged, count: changedFiles.size }
+			)
+		}
+
+		// Names of the packages, to keep the ASTs of the target files that import them
+		const packageNames = await Promise.all(
+			sourcePackages.map(
+				async (packagePath) => (await readPackageJson(packagePath)).name
+			)
+		)
+
+		// Scan target files once for all packages
+		const targetScan =
+			sourcePackages.length > 0
+				? await scanTargetFiles({
+						targetPath,
+						changedFiles,
+						concurrency,
+						skippedFiles,
+						parseCache,
+						packageNames: packageNames.filter((name) =>
+							isPackageSelected(name, include, exclude)
+						),
+						logger
+					})
+				: undefined
+
+		for (const [index, packagePath] of sourcePackages.entries()) {
+			logger.info(`\nProcessing package: ${packagePath}`, { packagePath })
+			const packageStats = createPackageStats()
+			const packageJson = await readPackageJson(packagePath)
+			const packageName = packageJson.name
+
+			if (!isPackageSelected(packageName, include, exclude)) {
+				logger.info(
+					`Skipping package ${packageName}: not selected by the include and exclude patterns`,
+					{ packagePath, packageName }
+				)
+				stats.sourcePackagesSkipped++
+				continue
+			}
+
+			// Apply the overrides configured for this package
+			const packageOptions: Required<Omit<PackageOptions, 'importExtension'>> &
+				Pick<PackageOptions, 'importExtension'> = {
+				ignoreSourceFiles,
+				ignoreTargetFiles,
+				includeExtension,
+				importExtension,
+				relativeImports,
+				pinnedExports,
+				generateExports,
+				exportsWildcards,
+				exportsConditions,
+				...getPackageOptions(packageOverrides, packageName)
+			}
 
 			// Find exports in source package
-			const exports = await findExports({ packagePath, stats })
-			stats.exportsFound = exports.reduce(
+			const exports = await findExports({
+				packagePath,
+				ignoreSourceFiles: packageOptions.ignoreSourceFiles,
+				stats: packageStats,
+				skippedFiles,
+				parseCache,
+				logger
+			})
+			packageStats.exportsFound = exports.reduce(
 				(total, info) => total + info.exports.length,
 				0
 			)
-			stats.sourceFilesWithExports = exports.length
+			packageStats.sourceFilesWithExports = exports.length
+			const entryFile = await findPackageEntry(
+				packagePath,
+				packageJson,
+				exports,
+				tsConfigCache
+			)
+			logger.debug(`Package entry: ${entryFile ?? 'not found'}`, {
+				packageName,
+				entryFile
+			})
 
 			// Find files that import from this package
-			const packageName = await getPackageName(packagePath)
 			const targetFiles = await findImports({
 				packageName,
 				targetPath,
-				ignoreTargetFiles,
-				stats
+				ignoreTargetFiles: packageOptions.ignoreTargetFiles,
+				stats: packageStats,
+				skippedFiles,
+				packagePath,
+				entryFile,
+				exports,
+				relativeImports: packageOptions.relativeImports,
+				tsConfigCache,
+				targetScan,
+				logger
 			})
-			stats.targetFilesFound = targetFiles.length
+			packageStats.targetFilesFound = targetFiles.length
+
+			// Subpaths the package has to expose for the rewritten imports
+			const requiredSubpaths = packageOptions.generateExports
+				? new Map<string, string>()
+				: undefined
 
 			// Update imports in target files
-			for (const filePath of targetFiles) {
-				stats.targetFilesProcessed++
+			for (const [index, filePath] of targetFiles.entries()) {
+				logger.progress(
+					`Updating imports of ${packageName}`,
+					index,
+					targetFiles.length
+				)
+				packageStats.targetFilesProcessed++
 				await updateImports({
 					filePath,
 					packageName,
+					packagePath,
+					packageJson,
+					entryFile,
+					requiredSubpaths,
+					tsConfigCache,
 					exports,
-					includeExtension,
-					dryRun,
+					importExtension:
+						packageOptions.importExtension ??
+						(packageOptions.includeExtension ? 'source' : 'none'),
+					packageTypeCache,
+					relativeImports: packageOptions.relativeImports,
+					pinnedExports: packageOptions.pinnedExports,
+					sortImports,
+					mergeImports,
+					dryRun: isReadOnly,
+					pendingChanges,
 					warnings,
-					stats
+					rewrites,
+					unresolved,
+					ambiguous,
+					skippedFiles,
+					stats: packageStats,
+					parseCache,
+					logger
+				})
+			}
+			logger.progress(
+				`Updating imports of ${packageName}`,
+				targetFiles.length,
+				targetFiles.length
+			)
+			// Files that only import through aliases or relative paths are parsed again if needed
+			const laterPackageNames = packageNames.slice(index + 1)
+			for (const filePath of targetFiles) {
+				if (
+					!importsPackage(
+						targetScan?.sources.get(filePath) ?? [],
+						laterPackageNames
+					)
+				) {
+					parseCache.delete(filePath)
+				}
+			}
+
+			if (requiredSubpaths && requiredSubpaths.size > 0) {
+				const entries = createExportsEntries(requiredSubpaths, {
+					wildcards: packageOptions.exportsWildcards,
+					conditions: packageOptions.exportsConditions
 				})
+				const subpaths = Object.keys(entries).join(', ')
+				if (isReadOnly) {
+					const packageJsonPath = path.join(packagePath, 'package.json')
+					const content = await readFile(packageJsonPath, 'utf-8')
+					pendingChanges?.set(packageJsonPath, {
+						original: content,
+						output: setPackageExports(content, entries)
+					})
+					logger.info(
+						`[dry-run] Would add exports to ${packageName}: ${subpaths}`,
+						{ packageName, entries }
+					)
+				} else {
+					await addPackageExports(packagePath, entries)
+					logger.info(`Added exports to ${packageName}: ${subpaths}`, {
+						packageName,
+						entries
+					})
+				}
+				packageStats.exportsEntriesAdded += Object.keys(entries).length
 			}
 
+			for (const key of PACKAGE_STATS_KEYS) {
+				stats[key] += packageStats[key]
+			}
+			packages.push({
+				name: packageName,
+				path: packagePath,
+				stats: packageStats
+			})
 			stats.sourcePackagesProcessed++
 		}
+		// Files that several packages change get a single diff of all their changes
+		for (const [filePath, { original, output }] of pendingChanges ?? []) {
+			showChanges(filePath, original, output, { diff, color, patches, logger })
+		}
+
+		// Each package counts the target files it ignores, the total counts each file once
+		stats.targetFilesSkipped = skippedFiles.filter(
+			({ kind, reason }) => kind === 'target' && reason === 'ignored'
+		).length
 
 		// Print migration summary
-		console.log('\nMigration Summary')
-		if (dryRun) {
-			console.log('Mode: dry-run (no files were modified)')
-		}
-		console.log(`Source packages found: ${stats.sourcePackagesFound}`)
-		console.log(`Source packages processed: ${stats.sourcePackagesProcessed}`)
-		console.log(`Source packages skipped: ${stats.sourcePackagesSkipped}`)
-		console.log(`Source files found: ${stats.sourceFilesFound}`)
-		console.log(`Source files with exports: ${stats.sourceFilesWithExports}`)
-		console.log(`Source files skipped: ${stats.sourceFilesSkipped}`)
-		console.log(`Exports found: ${stats.exportsFound}`)
-		console.log(`Target files found: ${stats.targetFilesFound}`)
-		console.log(`Target files processed: ${stats.targetFilesProcessed}`)
-		console.log(`Target files with imports updated: ${stats.importsUpdated}`)
-		console.log(`Target files with no changes needed: ${stats.noChangesNeeded}`)
-		console.log(`Target files skipped: ${stats.targetFilesSkipped}`)
-		console.log(`Total imports migrated: ${stats.importsMigrated}`)
-
-		if (warnings.length > 0) {
-			console.log('\nWarnings:')
-			warnings.forEach((warning) => console.log(`  - ${warning}`))
+		const summary = [
+			'\nMigration Summary',
+			...(check ? ['Mode: check (no files were modified)'] : []),
+			...(!check && dryRun ? ['Mode: dry-run (no files were modified)'] : []),
+			`Source packages found: ${stats.sourcePackagesFound}`,
+			`Source packages processed: ${stats.sourcePackagesProcessed}`,
+			`Source packages skipped: ${stats.sourcePackagesSkipped}`,
+			`Source files found: ${stats.sourceFilesFound}`,
+			`Source files with exports: ${stats.sourceFilesWithExports}`,
+			`Source files skipped: ${stats.sourceFilesSkipped}`,
+			`Exports found: ${stats.exportsFound}`,
+			`Target files found: ${stats.targetFilesFound}`,
+			`Target files processed: ${stats.targetFilesProcessed}`,
+			`Target files with imports updated: ${stats.importsUpdated}`,
+			`Target files with no changes needed: ${stats.noChangesNeeded}`,
+			`Target files skipped: ${stats.targetFilesSkipped}`,
+			`Total imports migrated: ${stats.importsMigrated}`,
+			...(generateExports || stats.exportsEntriesAdded > 0
+				? [`Package exports entries added: ${stats.exportsEntriesAdded}`]
+				: [])
+		]
+		logger.info(summary.join('\n'), { stats })
+
+		// Warnings are printed after the summary so they are not buried in the output
+		for (const warning of warnings) {
+			logger.warn(warning)
+		}
+		for (const { filePath, name, source, candidates } of ambiguous) {
+			logger.error(
+				`Could not migrate "${name}" in ${filePath}: ${source} exports it from ${candidates.join(', ')}, pin it to one of them with pinnedExports`,
+				{ filePath, name, source, candidates }
+			)
 		}
+
+		if (patch !== undefined && patches) {
+			await writeFile(patch, patches.join(''))
+			logger.info(`\nWrote patch with ${patches.length} files to ${patch}`, {
+				patch,
+				files: patches.length
+			})
+		}
+
+		if (check) {
+			if (rewrites.length > 0) {
+				logger.info('\nPending barrel import rewrites:')
+				for (const rewrite of rewrites) {
+					const { filePath, line, column, name, source, target } = rewrite
+					logger.error(
+						`  ${filePath}:${line}:${column} ${name}: ${source} -> ${target}`,
+						{ ...rewrite }
+					)
+				}
+			} else {
+				logger.info('\nNo pending barrel import rewrites')
+			}
+		}
+
+		const migrationReport: MigrationReport = {
+			stats,
+			packages,
+			rewrites,
+			unresolved,
+			ambiguous,
+			skippedFiles,
+			warnings
+		}
+		if (report !== undefined) {
+			await writeFile(report, `${JSON.stringify(migrationReport, null, 2)}\n`)
+			logger.info(`\nWrote report to ${report}`, { report })
+		}
+		return migrationReport
 	} catch (error) {
-		console.error('Error during migration:', error)
+		logger.error('Error during migration', { error })
 		throw error
 	}
 }
 
 /**
- * Gets the package name from package.json
+ * Merges the overrides configured for a source package
+ *
+ * Overrides are keyed by package name or a glob of package names, and later keys take precedence.
+ *
+ * @param {Record<string, PackageOptions>} packageOverrides - Overrides by package name pattern
+ * @param {string} packageName - Name of the source package
+ * @returns {PackageOptions} Overrides that apply to the package
+ */
+function getPackageOptions(
+	packageOverrides: Record<string, PackageOptions>,
+	packageName: string
+): PackageOptions {
+	const packageOptions: PackageOptions = {}
+	for (const [pattern, overrides] of Object.entries(packageOverrides)) {
+		if (pattern === packageName || micromatch.isMatch(packageName, pattern)) {
+			Object.assign(packageOptions, overrides)
+		}
+	}
+	return packageOptions
+}
+
+/**
+ * Checks whether a package name passes the include and exclude patterns
  *
- * @param {string} packagePath - Path to the package directory
- * @returns {Promise<string>} Package name
+ * @param {string} packageName - Name of the package
+ * @param {string[]} include - Patterns of which one has to match, unless there are none
+ * @param {string[]} exclude - Patterns of which none may match
+ * @returns {boolean} Whether the package is migrated
  */
-async function getPackageName(packagePath: string): Promise<string> {
-	const packageJsonPath = path.join(packagePath, 'package.json')
-	const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8'))
-	return packageJson.name
+function isPackageSelected(
+	packageName: string,
+	include: string[],
+	exclude: string[]
+): boolean {
+	return (
+		(include.length === 0 || micromatch.isMatch(packageName, include)) &&
+		(exclude.length === 0 || !micromatch.isMatch(packageName, exclude))
+	)
 }
 
 /**
- * Finds all source packages in the given path
+ * Finds all source packages in the given paths
+ *
+ * Paths may be glob patterns of directories (e.g. `libs/*`), and packages
+ * matched by more than one path are only returned once.
  *
- * @param {string} sourcePath - Path to search for source packages
+ * @param {string | string[]} sourcePath - Path or paths to search for source packages
+ * @param {Logger} logger - Logger for the packages found
  * @returns {Promise<string[]>} Array of package paths
  */
-async function findSourcePackages(sourcePath: string): Promise<string[]> {
-	// Use a local variable instead of reassigning the parameter
-	const resolvedPath = path.isAbsolute(sourcePath)
-		? path.resolve(sourcePath)
-		: path.join(process.cwd(), sourcePath)
+async function findSourcePackages(
+	sourcePath: string | string[],
+	logger: Logger
+): Promise<string[]> {
+	const packagePaths = new Set<string>()
 
-	console.log(`Looking for source packages in: ${resolvedPath}`)
+	for (const pattern of Array.isArray(sourcePath) ? sourcePath : [sourcePath]) {
+		const resolvedPath = path.isAbsolute(pattern)
+			? path.resolve(pattern)
+			: path.join(process.cwd(), pattern)
 
-	const packageJsonFiles = await fg('{package.json,**/package.json}', {
-		cwd: resolvedPath,
-		ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
-		absolute: true
-	})
+		logger.info(`Looking for source packages in: ${resolvedPath}`)
 
-	console.log(`Found ${packageJsonFiles.length} package.json files:`)
-	packageJsonFiles.forEach((file) => console.log(`  - ${file}`))
+		const directories = fg.isDynamicPattern(pattern)
+			? await fg(pattern, {
+					onlyDirectories: true,
+					ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
+					absolute: true
+				})
+			: [resolvedPath]
+
+		for (const directory of directories) {
+			const packageJsonFiles = await fg('{package.json,**/package.json}', {
+				cwd: directory,
+				ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
+				absolute: true
+			})
+
+			logger.debug(`Found ${packageJsonFiles.length} package.json files:`)
+			packageJsonFiles.forEach((file) => logger.debug(`  - ${file}`, { file }))
+
+			for (const file of packageJsonFiles) {
+				packagePaths.add(path.dirname(file))
+			}
+		}
+	}
 
-	return packageJsonFiles.map((file) => path.dirname(file))
+	return [...packagePaths]
 }
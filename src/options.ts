@@ -1,23 +1,116 @@
+import type { LogFormat, LogLevel, Logger } from './logger'
+
+/**
+ * Order of migrated import declarations: by module path, or by the first name they import
+ */
+export type ImportSortOrder = 'path' | 'specifier'
+
+/**
+ * Extension of rewritten import paths: none, the extension of the source file, or the
+ * extension the compiler emits for it (e.g. `.js` for `.tsx`), which ES modules under
+ * `moduleResolution: node16` import
+ */
+export type ImportExtension = 'none' | 'source' | 'js-emitted'
+
+/**
+ * Options that can be overridden for individual source packages
+ * @property {string[]} [ignoreSourceFiles] - Patterns to ignore when scanning source files
+ * @property {string[]} [ignoreTargetFiles] - Patterns to ignore when scanning target files
+ * @property {boolean} [includeExtension] - Whether to include file extensions in imports
+ * @property {ImportExtension} [importExtension] - Extension policy for imports, instead of `includeExtension`; `js-emitted` leaves out the extension in CommonJS files
+ * @property {boolean} [relativeImports] - Whether files inside the package import its files by relative paths, including through relative imports of its barrel files
+ * @property {Record<string, string>} [pinnedExports] - Map of export names to the package-relative files to import them from, for names that several files export
+ * @property {boolean} [generateExports] - Whether to add package.json `exports` entries for migrated files the package does not expose yet
+ * @property {boolean} [exportsWildcards] - Whether to combine generated `exports` entries in the same directory into wildcard patterns
+ * @property {string[]} [exportsConditions] - Conditions (e.g. `types`, `import`, `require`) to use for generated `exports` entries
+ */
+export type PackageOptions = {
+	ignoreSourceFiles?: string[]
+	ignoreTargetFiles?: string[]
+	includeExtension?: boolean
+	importExtension?: ImportExtension
+	relativeImports?: boolean
+	pinnedExports?: Record<string, string>
+	generateExports?: boolean
+	exportsWildcards?: boolean
+	exportsConditions?: string[]
+}
+
 /**
  * Configuration options for the migration process
- * @property {string} sourcePath - Glob pattern for source packages to migrate
+ * @property {string | string[]} sourcePath - Glob pattern or patterns for source packages to migrate
  * @property {string} targetPath - Path to the monorepo root to search for imports
+ * @property {boolean} [allWorkspaces] - Whether to migrate every package of the workspace the target path belongs to, in addition to the source path
+ * @property {string[]} [include] - Package name patterns to migrate, all source packages if empty
+ * @property {string[]} [exclude] - Package name patterns to leave out
  * @property {string[]} ignoreSourceFiles - Patterns to ignore when scanning source files
  * @property {string[]} ignoreTargetFiles - Patterns to ignore when scanning target files
  * @property {boolean} [includeExtension] - Whether to include file extensions in imports
+ * @property {ImportExtension} [importExtension] - Extension policy for imports, instead of `includeExtension`; `js-emitted` leaves out the extension in CommonJS files
+ * @property {boolean} [relativeImports] - Whether files inside a source package import its files by relative paths, including through relative imports of its barrel files
+ * @property {Record<string, string>} [pinnedExports] - Map of export names to the package-relative files to import them from, for names that several files export
+ * @property {boolean} [dryRun] - Whether to preview changes without modifying files
+ * @property {boolean} [check] - Whether to report pending rewrites without modifying files, for CI
+ * @property {boolean} [diff] - Whether to print a unified diff of each file that changes
+ * @property {string} [patch] - Path of a patch file to write the changes to, instead of modifying files
+ * @property {string} [report] - Path of a JSON file to write the migration report to
+ * @property {boolean} [generateExports] - Whether to add package.json `exports` entries for migrated files the package does not expose yet
+ * @property {boolean} [exportsWildcards] - Whether to combine generated `exports` entries in the same directory into wildcard patterns
+ * @property {string[]} [exportsConditions] - Conditions (e.g. `types`, `import`, `require`) to use for generated `exports` entries
+ * @property {ImportSortOrder} [sortImports] - How to sort the declarations that replace a barrel import, which keep the order names resolve in by default
+ * @property {boolean} [mergeImports] - Whether to add migrated names to existing imports of the same path instead of adding declarations
+ * @property {Record<string, PackageOptions>} [packages] - Overrides for source packages, keyed by package name or a glob of package names
+ * @property {string} [since] - Git ref; only target files changed since the ref are migrated
+ * @property {boolean} [staged] - Whether to only migrate target files staged in git (combined with `since`, files in either)
+ * @property {number} [concurrency] - Number of worker threads that scan target files in parallel; updating imports stays in the main thread
+ * @property {LogLevel} [logLevel] - Most verbose level of messages to print (`silent`, `error`, `warn`, `info` or `debug`)
+ * @property {LogFormat} [logFormat] - Whether to print messages as text or as NDJSON
+ * @property {Logger} [logger] - Logger to receive all output, instead of printing it with `logLevel` and `logFormat`
  */
 export type Options = {
-	sourcePath: string
+	sourcePath: string | string[]
 	targetPath: string
+	allWorkspaces?: boolean
+	include?: string[]
+	exclude?: string[]
 	ignoreSourceFiles: string[]
 	ignoreTargetFiles: string[]
 	includeExtension?: boolean
+	importExtension?: ImportExtension
+	relativeImports?: boolean
+	pinnedExports?: Record<string, string>
 	dryRun?: boolean
+	check?: boolean
+	diff?: boolean
+	patch?: string
+	report?: string
+	generateExports?: boolean
+	exportsWildcards?: boolean
+	exportsConditions?: string[]
+	sortImports?: ImportSortOrder
+	mergeImports?: boolean
+	packages?: Record<string, PackageOptions>
+	since?: string
+	staged?: boolean
+	concurrency?: number
+	logLevel?: LogLevel
+	logFormat?: LogFormat
+	logger?: Logger
 }
 
 export const defaultOptions: Omit<Options, 'sourcePath'> = {
 	targetPath: '.',
+	allWorkspaces: false,
+	include: [],
+	exclude: [],
 	ignoreSourceFiles: [],
 	ignoreTargetFiles: [],
-	includeExtension: false
+	includeExtension: false,
+	relativeImports: false,
+	check: false,
+	diff: false,
+	generateExports: false,
+	exportsWildcards: false,
+	exportsConditions: [],
+	mergeImports: false
 }
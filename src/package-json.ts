@@ -0,0 +1,397 @@
+/**
+ * @fileoverview Reads package.json files and maps source files to the subpaths
+ * their package exposes through `exports` or `typesVersions`
+ */
+
+import { existsSync } from 'node:fs'
+import { readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+/**
+ * Target of a package.json `exports` entry: a path, conditions, fallbacks or null to block a subpath
+ */
+export type PackageExportsTarget =
+	| string
+	| null
+	| PackageExportsTarget[]
+	| { [condition: string]: PackageExportsTarget }
+
+/**
+ * The parts of package.json the migration reads
+ */
+export interface PackageJson {
+	name: string
+	source?: string
+	main?: string
+	module?: string
+	types?: string
+	typings?: string
+	exports?: PackageExportsTarget
+	typesVersions?: Record<string, Record<string, string[]>>
+	type?: 'module' | 'commonjs'
+	workspaces?: string[] | { packages?: string[] }
+}
+
+/**
+ * Reads the package.json of a package
+ *
+ * @param {string} packagePath - Path to the package directory
+ * @returns {Promise<PackageJson>} Parsed package.json
+ */
+export async function readPackageJson(
+	packagePath: string
+): Promise<PackageJson> {
+	const packageJsonPath = path.join(packagePath, 'package.json')
+	return JSON.parse(await readFile(packageJsonPath, 'utf-8'))
+}
+
+/**
+ * Caches whether the nearest package.json of each directory declares `"type": "module"`
+ */
+export type PackageTypeCache = Map<string, Promise<boolean>>
+
+/**
+ * Checks whether the nearest package.json of a directory declares `"type": "module"`
+ */
+function isModuleDirectory(
+	directory: string,
+	cache: PackageTypeCache
+): Promise<boolean> {
+	const cached = cache.get(directory)
+	if (cached) {
+		return cached
+	}
+
+	const parentDirectory = path.dirname(directory)
+	const isModule = existsSync(path.join(directory, 'package.json'))
+		? readPackageJson(directory).then(
+				(packageJson) => packageJson.type === 'module'
+			)
+		: parentDirectory !== directory
+			? isModuleDirectory(parentDirectory, cache)
+			: Promise.resolve(false)
+	cache.set(directory, isModule)
+	return isModule
+}
+
+/**
+ * Checks whether a file is an ES module, as Node.js decides it
+ *
+ * `.mts` and `.mjs` files are ES modules and `.cts` and `.cjs` files CommonJS.
+ * Other files are ES modules if their nearest package.json has `"type": "module"`.
+ *
+ * @param {string} filePath - Absolute path to the file
+ * @param {PackageTypeCache} [cache] - Cache of package types by directory
+ * @returns {Promise<boolean>} Whether the file is an ES module
+ */
+export async function isEsModule(
+	filePath: string,
+	cache: PackageTypeCache = new Map()
+): Promise<boolean> {
+	if (/\.m[jt]s$/.test(filePath)) {
+		return true
+	}
+	if (/\.c[jt]s$/.test(filePath)) {
+		return false
+	}
+	return isModuleDirectory(path.dirname(filePath), cache)
+}
+
+/**
+ * Checks whether a package limits which of its files can be imported
+ *
+ * @param {PackageJson} packageJson - Parsed package.json
+ * @returns {boolean} Whether the package declares `exports` or `typesVersions`
+ */
+export function hasSubpathRestrictions(packageJson: PackageJson): boolean {
+	return (
+		(packageJson.exports !== undefined && packageJson.exports !== null) ||
+		packageJson.typesVersions !== undefined
+	)
+}
+
+/**
+ * Removes the extension of a file path, including declaration file extensions
+ */
+function stripExtension(filePath: string): string {
+	return filePath.replace(/(?:\.d)?\.[cm]?[jt]sx?$/, '')
+}
+
+/**
+ * Normalizes an `exports` map to subpath keys (`.`, `./button`, ...)
+ */
+function getSubpathMap(
+	exportsField: PackageExportsTarget
+): Record<string, PackageExportsTarget> {
+	if (
+		typeof exportsField === 'string' ||
+		Array.isArray(exportsField) ||
+		exportsField === null
+	) {
+		return { '.': exportsField }
+	}
+
+	const keys = Object.keys(exportsField)
+	// An object of conditions (`import`, `types`, ...) describes the package root
+	return keys.every((key) => !key.startsWith('.'))
+		? { '.': exportsField }
+		: exportsField
+}
+
+/**
+ * Collects every path a target can resolve to, across conditions and fallbacks
+ *
+ * Returns undefined when the target is null, which blocks the subpath.
+ */
+function getTargetPaths(target: PackageExportsTarget): string[] | undefined {
+	if (target === null) {
+		return undefined
+	}
+	if (typeof target === 'string') {
+		return [target]
+	}
+	const targets = Array.isArray(target) ? target : Object.values(target)
+	return targets.flatMap((value) => getTargetPaths(value) ?? [])
+}
+
+/**
+ * Lists the paths package.json declares for the package root, in the order they are tried
+ *
+ * The `source` field comes first, then the targets of the root `exports` entry,
+ * `module`, `main` and `types`. Paths are package-relative and without their
+ * extension, so that build outputs can be matched to their source files.
+ *
+ * @param {PackageJson} packageJson - Parsed package.json
+ * @returns {string[]} Package-relative entry paths without extensions
+ */
+export function getEntryPaths(packageJson: PackageJson): string[] {
+	const rootTarget =
+		packageJson.exports === undefined
+			? undefined
+			: getSubpathMap(packageJson.exports)['.']
+	const entryPaths = [
+		packageJson.source,
+		...((rootTarget !== undefined && getTargetPaths(rootTarget)) || []),
+		packageJson.module,
+		packageJson.main,
+		packageJson.types,
+		packageJson.typings
+	]
+		.filter((entryPath): entryPath is string => entryPath !== undefined)
+		.map((entryPath) =>
+			stripExtension(path.posix.normalize(entryPath)).replace(/^\.\/?/, '')
+		)
+	return [...new Set(entryPaths)]
+}
+
+/**
+ * Matches a file against a target path, returning the value for the subpath wildcard
+ *
+ * @param {string} file - Package-relative path of the file
+ * @param {string} target - Target path from package.json (e.g. `./src/*.ts`)
+ * @returns {string | undefined} Wildcard replacement (empty for exact targets), or undefined if the target does not reach the file
+ */
+function matchTarget(file: string, target: string): string | undefined {
+	const targetPath = path.posix.normalize(target)
+	const wildcardIndex = targetPath.indexOf('*')
+
+	if (wildcardIndex === -1) {
+		return targetPath === file ||
+			stripExtension(targetPath) === stripExtension(file)
+			? ''
+			: undefined
+	}
+
+	const prefix = targetPath.slice(0, wildcardIndex)
+	const suffix = targetPath.slice(wildcardIndex + 1)
+	if (file.startsWith(prefix) && file.endsWith(suffix)) {
+		return file.slice(prefix.length, file.length - suffix.length)
+	}
+
+	// Targets may point at emitted or declaration files (`./dist/*.js`, `./src/*.d.ts`)
+	const strippedFile = stripExtension(file)
+	const strippedSuffix = stripExtension(suffix)
+	if (
+		strippedFile.startsWith(prefix) &&
+		strippedFile.endsWith(strippedSuffix) &&
+		strippedFile.length >= prefix.length + strippedSuffix.length
+	) {
+		return strippedFile.slice(
+			prefix.length,
+			strippedFile.length - strippedSuffix.length
+		)
+	}
+	return undefined
+}
+
+/**
+ * Finds a subpath in a subpath map whose targets reach a file
+ *
+ * Exact subpaths are preferred over wildcard patterns.
+ */
+function findSubpath(
+	subpaths: Array<[string, string[] | undefined]>,
+	file: string
+): string | undefined {
+	const blocked = subpaths.filter(([, targets]) => targets === undefined)
+	const ordered = [
+		...subpaths.filter(([subpath]) => !subpath.includes('*')),
+		...subpaths.filter(([subpath]) => subpath.includes('*'))
+	]
+
+	for (const [subpath, targets] of ordered) {
+		for (const target of targets ?? []) {
+			const captured = matchTarget(file, target)
+			if (captured === undefined) {
+				continue
+			}
+
+			const resolvedSubpath = subpath.replace('*', captured)
+			const isBlocked = blocked.some(
+				([blockedSubpath]) =>
+					blockedSubpath === resolvedSubpath ||
+					(blockedSubpath.includes('*') &&
+						resolvedSubpath.startsWith(blockedSubpath.split('*')[0] ?? ''))
+			)
+			if (!isBlocked) {
+				return resolvedSubpath
+			}
+		}
+	}
+	return undefined
+}
+
+/**
+ * Finds the subpath a package exposes a file under
+ *
+ * Reads the `exports` map, or `typesVersions` when the package has no `exports`.
+ *
+ * @param {PackageJson} packageJson - Parsed package.json
+ * @param {string} file - Package-relative path of the file
+ * @returns {string | undefined} Subpath without leading `./` (empty for the package root), or undefined if no subpath reaches the file
+ */
+export function findExportedSubpath(
+	packageJson: PackageJson,
+	file: string
+): string | undefined {
+	if (packageJson.exports !== undefined && packageJson.exports !== null) {
+		const subpaths = Object.entries(getSubpathMap(packageJson.exports)).map(
+			([subpath, target]): [string, string[] | undefined] => [
+				subpath,
+				getTargetPaths(target)
+			]
+		)
+		const subpath = findSubpath(subpaths, file)
+		return subpath === undefined ? undefined : subpath.replace(/^\.\/?/, '')
+	}
+
+	// typesVersions maps bare subpaths; the first version range applies
+	const typesVersions = Object.values(packageJson.typesVersions ?? {})[0]
+	if (typesVersions) {
+		const subpath = findSubpath(Object.entries(typesVersions), file)
+		// TypeScript resolves typesVersions subpaths without extensions
+		return subpath === undefined ? undefined : stripExtension(subpath)
+	}
+	return undefined
+}
+
+/**
+ * @property {boolean} [wildcards] - Whether to combine entries in the same directory into wildcard patterns
+ * @property {string[]} [conditions] - Conditions to point at each file, instead of a plain path
+ */
+interface ExportsEntriesOptions {
+	wildcards?: boolean
+	conditions?: string[]
+}
+
+/**
+ * Creates the `exports` entries that expose a set of files
+ *
+ * With wildcards enabled, two or more files in the same directory share a
+ * `./dir/*` pattern instead of one entry each.
+ *
+ * @param {Map<string, string>} subpaths - Map of subpaths (e.g. `./src/button/Button`) to the package-relative files they should expose
+ * @param {ExportsEntriesOptions} options - How to shape the entries
+ * @returns {Record<string, PackageExportsTarget>} Entries to add to the `exports` map
+ */
+export function createExportsEntries(
+	subpaths: Map<string, string>,
+	{ wildcards = false, conditions = [] }: ExportsEntriesOptions
+): Record<string, PackageExportsTarget> {
+	const toTarget = (file: string): PackageExportsTarget =>
+		conditions.length > 0
+			? Object.fromEntries(conditions.map((condition) => [condition, file]))
+			: file
+
+	const entries: Record<string, PackageExportsTarget> = {}
+	const groups = new Map<
+		string,
+		{ pattern: string; target: string; files: Array<[string, string]> }
+	>()
+
+	for (const [subpath, file] of subpaths) {
+		// Subpaths without an extension need the extension in the wildcard target
+		const extension = path.posix.extname(file)
+		const keepsExtension = subpath.endsWith(extension)
+		const pattern = `${path.posix.dirname(subpath)}/*`
+		const target = `./${path.posix.dirname(file)}/*${keepsExtension ? '' : extension}`
+		const groupKey = `${pattern} -> ${target}`
+		const group = groups.get(groupKey) ?? { pattern, target, files: [] }
+		group.files.push([subpath, file])
+		groups.set(groupKey, group)
+	}
+
+	for (const { pattern, target, files } of groups.values()) {
+		if (wildcards && files.length > 1 && !(pattern in entries)) {
+			entries[pattern] = toTarget(target)
+			continue
+		}
+		for (const [subpath, file] of files) {
+			entries[subpath] = toTarget(`./${file}`)
+		}
+	}
+
+	return entries
+}
+
+/**
+ * Adds entries to the `exports` map of package.json content
+ *
+ * Keeps the file's indentation and converts a root-only `exports` value to a subpath map.
+ *
+ * @param {string} content - Content of package.json
+ * @param {Record<string, PackageExportsTarget>} entries - Entries to add
+ * @returns {string} Updated content of package.json
+ */
+export function setPackageExports(
+	content: string,
+	entries: Record<string, PackageExportsTarget>
+): string {
+	const packageJson = JSON.parse(content)
+	const indent = /^([ \t]+)"/m.exec(content)?.[1] ?? '\t'
+
+	packageJson.exports = {
+		...(packageJson.exports !== undefined && packageJson.exports !== null
+			? getSubpathMap(packageJson.exports)
+			: {}),
+		...entries
+	}
+
+	return `${JSON.stringify(packageJson, null, indent)}${content.endsWith('\n') ? '\n' : ''}`
+}
+
+/**
+ * Adds entries to the `exports` map in a package's package.json
+ *
+ * @param {string} packagePath - Path to the package directory
+ * @param {Record<string, PackageExportsTarget>} entries - Entries to add
+ * @returns {Promise<void>}
+ */
+export async function addPackageExports(
+	packagePath: string,
+	entries: Record<string, PackageExportsTarget>
+): Promise<void> {
+	const packageJsonPath = path.join(packagePath, 'package.json')
+	const content = await readFile(packageJsonPath, 'utf-8')
+	await writeFile(packageJsonPath, setPackageExports(content, entries))
+}
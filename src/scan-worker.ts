@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Worker thread that scans target files for the module specifiers they import
+ */
+
+import { parentPort, workerData } from 'node:worker_threads'
+import { scanFiles } from './migrate-barrel-imports'
+
+void scanFiles(workerData.files, (result) => parentPort?.postMessage(result))
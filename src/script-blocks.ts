@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Finds the script blocks of Vue, Svelte, Astro and MDX files, so that
+ * their imports can be parsed and rewritten without touching templates or markup
+ */
+
+import path from 'node:path'
+
+/**
+ * Extensions of the files whose imports are in script blocks inside markup
+ */
+export const SCRIPT_BLOCK_EXTENSIONS = ['.vue', '.svelte', '.astro', '.mdx']
+
+/**
+ * Range of a script block in the text of a file
+ * @property {number} start - Offset of the first character of the script
+ * @property {number} end - Offset after the last character of the script
+ * @property {boolean} [isFrontmatter] - Whether the script is Astro frontmatter, which runs as the body of a function
+ */
+export interface ScriptBlock {
+	start: number
+	end: number
+	isFrontmatter?: boolean
+}
+
+/**
+ * Checks whether the attributes of a `<script>` tag leave its content out of the module graph
+ *
+ * Scripts that load a file (`src`), hold data (`type="application/json"`) or are
+ * inlined as they are (Astro's `is:inline`) are not parsed.
+ */
+function isExternalScript(attributes: string): boolean {
+	if (/(?:^|\s)(?:src\s*=|is:inline\b)/.test(attributes)) {
+		return true
+	}
+	const type = /(?:^|\s)type\s*=\s*["']?([^"'\s>]+)/.exec(attributes)?.[1]
+	return (
+		type !== undefined && !/^(?:module|text\/(?:java|type)script)$/.test(type)
+	)
+}
+
+/**
+ * Finds the content of the `<script>` tags of a file
+ */
+function findScriptTags(content: string): ScriptBlock[] {
+	const blocks: ScriptBlock[] = []
+	const scriptPattern = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi
+	for (const match of content.matchAll(scriptPattern)) {
+		const [tag, attributes = '', script = ''] = match
+		if (match.index === undefined || isExternalScript(attributes)) {
+			continue
+		}
+		const start = match.index + tag.indexOf('>') + 1
+		blocks.push({ start, end: start + script.length })
+	}
+	return blocks
+}
+
+/**
+ * Finds the frontmatter script of an Astro file, between `---` fences at the top
+ */
+function findFrontmatter(content: string): ScriptBlock[] {
+	const match = /^(\s*---[^\S\r\n]*\r?\n)([\s\S]*?)^---[^\S\r\n]*$/m.exec(
+		content
+	)
+	if (match?.index !== 0 || match[1] === undefined || match[2] === undefined) {
+		return []
+	}
+	const start = match[1].length
+	return [{ start, end: start + match[2].length, isFrontmatter: true }]
+}
+
+/**
+ * Finds the ESM blocks of an MDX file
+ *
+ * As in MDX, an ESM block is a paragraph that starts with `import` or `export` at the
+ * start of a line, and runs until the next blank line. Code fences are skipped.
+ */
+function findEsmBlocks(content: string): ScriptBlock[] {
+	const blocks: ScriptBlock[] = []
+	let fence: string | undefined
+	let block: ScriptBlock | undefined
+	let isParagraphStart = true
+	let offset = 0
+	for (const line of content.split(/(?<=\n)/)) {
+		const text = line.trimEnd()
+		const lineEnd = offset + text.length
+		const fenceMarker = /^\s*(`{3,}|~{3,})/.exec(text)?.[1]
+
+		if (fence !== undefined) {
+			if (fenceMarker?.startsWith(fence)) {
+				fence = undefined
+			}
+		} else if (text.trim() === '') {
+			block = undefined
+			isParagraphStart = true
+		} else if (block) {
+			block.end = lineEnd
+		} else if (fenceMarker) {
+			fence = fenceMarker
+			isParagraphStart = false
+		} else if (isParagraphStart && /^(?:import|export)\b/.test(text)) {
+			block = { start: offset, end: lineEnd }
+			blocks.push(block)
+		} else {
+			isParagraphStart = false
+		}
+
+		offset += line.length
+	}
+	return blocks
+}
+
+/**
+ * Finds the script blocks of a Vue, Svelte, Astro or MDX file
+ *
+ * Vue and Svelte files import in `<script>` tags, Astro files in their frontmatter
+ * and `<script>` tags, and MDX files in ESM blocks.
+ *
+ * @param {string} filePath - Path to the file
+ * @param {string} content - Text of the file
+ * @returns {ScriptBlock[] | undefined} Script blocks in order, or undefined if the whole file is a script
+ */
+export function findScriptBlocks(
+	filePath: string,
+	content: string
+): ScriptBlock[] | undefined {
+	switch (path.extname(filePath)) {
+		case '.vue':
+		case '.svelte':
+			return findScriptTags(content)
+		case '.astro':
+			return [...findFrontmatter(content), ...findScriptTags(content)]
+		case '.mdx':
+			return findEsmBlocks(content)
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Blanks out everything outside a script block of a file
+ *
+ * Line breaks are kept and every other character outside the block becomes a space,
+ * so that offsets, lines and columns in the parsed script are the same as in the file,
+ * and edits of the script can be applied to the file as it is.
+ *
+ * @param {string} content - Text of the file
+ * @param {ScriptBlock} block - Script block to keep
+ * @returns {string} Text to parse as a module
+ */
+export function getScriptSource(
+	content: string,
+	{ start, end }: ScriptBlock
+): string {
+	return (
+		content.slice(0, start).replace(/[^\r\n]/g, ' ') +
+		content.slice(start, end) +
+		content.slice(end).replace(/[^\r\n]/g, ' ')
+	)
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Applies rewrites as edits to the original text of a file, so that
+ * everything the migration does not touch keeps its exact bytes
+ */
+
+/**
+ * Replacement of a range of the original text
+ * @property {number} start - Offset of the first replaced character
+ * @property {number} end - Offset after the last replaced character
+ * @property {string} text - Text to put in place of the range
+ */
+export interface TextEdit {
+	start: number
+	end: number
+	text: string
+}
+
+/**
+ * Applies edits to the original text
+ *
+ * An edit inside the range of another edit is dropped, as the outer edit already
+ * covers it. Edits that partially overlap cannot be combined.
+ *
+ * @param {string} content - Original text
+ * @param {TextEdit[]} edits - Edits with offsets in the original text
+ * @returns {string} Text with the edits applied
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+	// Outer edits come before the edits they contain
+	const ordered = [...edits]
+	ordered.sort((a, b) => a.start - b.start || b.end - a.end)
+
+	let output = ''
+	let offset = 0
+	for (const edit of ordered) {
+		if (edit.start < offset && edit.end <= offset) {
+			continue
+		}
+		if (edit.start < offset) {
+			throw new Error(
+				`Overlapping edits at offsets ${edit.start}-${edit.end} cannot be applied`
+			)
+		}
+		output += content.slice(offset, edit.start) + edit.text
+		offset = edit.end
+	}
+	return output + content.slice(offset)
+}
+
+/**
+ * Returns the whitespace that indents the line containing an offset
+ *
+ * @param {string} content - Original text
+ * @param {number} offset - Offset on the line
+ * @returns {string} Spaces and tabs at the start of the line
+ */
+export function getIndentation(content: string, offset: number): string {
+	const lineStart = content.lastIndexOf('\n', offset - 1) + 1
+	return /^[ \t]*/.exec(content.slice(lineStart, offset))?.[0] ?? ''
+}
+
+/**
+ * Returns the line break the text uses
+ *
+ * @param {string} content - Original text
+ * @returns {string} `\r\n` if the text has Windows line breaks, otherwise `\n`
+ */
+export function getLineBreak(content: string): string {
+	return content.includes('\r\n') ? '\r\n' : '\n'
+}
+
+/**
+ * Creates an edit that removes a statement
+ *
+ * A statement on lines of its own is removed with its indentation and line break,
+ * so that no empty line is left behind.
+ *
+ * @param {string} content - Original text
+ * @param {number} start - Offset where the statement starts
+ * @param {number} end - Offset where the statement ends
+ * @returns {TextEdit} Edit that removes the statement
+ */
+export function createRemovalEdit(
+	content: string,
+	start: number,
+	end: number
+): TextEdit {
+	const lineStart = content.lastIndexOf('\n', start - 1) + 1
+	const isLineStart = /^[ \t]*$/.test(content.slice(lineStart, start))
+	const lineEnd = /^[ \t]*(?:\r?\n|$)/.exec(content.slice(end))
+
+	if (isLineStart && lineEnd) {
+		return { start: lineStart, end: end + lineEnd[0].length, text: '' }
+	}
+	return { start, end, text: '' }
+}
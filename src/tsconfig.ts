@@ -0,0 +1,502 @@
+/**
+ * @fileoverview Reads tsconfig.json path aliases so that alias specifiers (e.g. `@ui/*`)
+ * can be matched against source packages and rewritten to alias-relative paths
+ */
+
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import path from 'node:path'
+import { createLogger, type Logger } from './logger'
+
+/**
+ * A single `compilerOptions.paths` entry with its targets resolved to absolute paths
+ * @property {string} pattern - Alias pattern (e.g. `@ui/*`)
+ * @property {string[]} targets - Absolute target paths, possibly containing a `*` wildcard
+ * @property {boolean} [isBaseUrl] - Whether the alias is the implicit `baseUrl` lookup
+ */
+export interface PathAlias {
+	pattern: string
+	targets: string[]
+	isBaseUrl?: boolean
+}
+
+/**
+ * @property {string} configPath - Absolute path to the tsconfig file
+ * @property {PathAlias[]} aliases - Path aliases after applying the `extends` chain
+ * @property {TsConfig[]} references - Loaded project references
+ * @property {string} [outDir] - Absolute path of the directory the project is compiled to
+ * @property {string} [rootDir] - Absolute path of the directory the compiled files mirror
+ */
+export interface TsConfig {
+	configPath: string
+	aliases: PathAlias[]
+	references: TsConfig[]
+	outDir?: string
+	rootDir?: string
+}
+
+/**
+ * Caches loaded tsconfig files and the nearest tsconfig.json of each directory
+ * @property {Logger} logger - Logger for tsconfig files that cannot be read
+ */
+export interface TsConfigCache {
+	configs: Map<string, Promise<TsConfig | undefined>>
+	directories: Map<string, string | undefined>
+	logger: Logger
+}
+
+/**
+ * @property {PathAlias} alias - Alias that matched the specifier
+ * @property {string[]} paths - Absolute candidate paths for the specifier
+ */
+export interface PathAliasMatch {
+	alias: PathAlias
+	paths: string[]
+}
+
+interface RawTsConfig {
+	extends?: string | string[]
+	references?: Array<{ path: string }>
+	compilerOptions?: {
+		baseUrl?: string
+		paths?: Record<string, string[]>
+		outDir?: string
+		rootDir?: string
+	}
+}
+
+/**
+ * Compiler options that affect path resolution and output paths, with their base directories resolved
+ */
+interface ResolvedCompilerOptions {
+	baseUrl?: string
+	paths?: Record<string, string[]>
+	pathsBasePath?: string
+	outDir?: string
+	rootDir?: string
+}
+
+export function createTsConfigCache(
+	logger: Logger = createLogger()
+): TsConfigCache {
+	return { configs: new Map(), directories: new Map(), logger }
+}
+
+/**
+ * Parses JSON that may contain comments and trailing commas, as tsconfig files do
+ *
+ * @param {string} content - File content
+ * @returns {T} Parsed value
+ */
+export function parseJsonc<T = unknown>(content: string): T {
+	let output = ''
+	let inString = false
+
+	for (let index = 0; index < content.length; index++) {
+		const char = content[index]
+		const next = content[index + 1]
+
+		if (inString) {
+			output += char
+			if (char === '\\') {
+				output += next ?? ''
+				index++
+			} else if (char === '"') {
+				inString = false
+			}
+		} else if (char === '"') {
+			inString = true
+			output += char
+		} else if (char === '/' && next === '/') {
+			while (index < content.length && content[index] !== '\n') {
+				index++
+			}
+			output += '\n'
+		} else if (char === '/' && next === '*') {
+			index = content.indexOf('*/', index + 2)
+			if (index === -1) {
+				break
+			}
+			index++
+		} else {
+			output += char
+		}
+	}
+
+	return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'))
+}
+
+/**
+ * Resolves an `extends` value to the path of the extended tsconfig file
+ */
+function resolveExtendsPath(
+	configPath: string,
+	extendsValue: string
+): string | undefined {
+	const configDir = path.dirname(configPath)
+
+	if (extendsValue.startsWith('.') || path.isAbsolute(extendsValue)) {
+		const extendsPath = path.resolve(configDir, extendsValue)
+		return existsSync(extendsPath) ? extendsPath : `${extendsPath}.json`
+	}
+
+	// Shared configs from packages, e.g. `@tsconfig/node20/tsconfig.json`
+	const require = createRequire(configPath)
+	for (const candidate of [
+		extendsValue,
+		`${extendsValue}.json`,
+		`${extendsValue}/tsconfig.json`
+	]) {
+		try {
+			return require.resolve(candidate)
+		} catch {
+			// Try the next candidate
+		}
+	}
+	return undefined
+}
+
+/**
+ * Reads the path resolution and output options of a tsconfig file, following its `extends` chain
+ */
+async function readCompilerOptions(
+	configPath: string,
+	seen: Set<string> = new Set()
+): Promise<{ options: ResolvedCompilerOptions; raw: RawTsConfig }> {
+	seen.add(configPath)
+	const raw = parseJsonc<RawTsConfig>(await readFile(configPath, 'utf-8'))
+	const configDir = path.dirname(configPath)
+
+	const options: ResolvedCompilerOptions = {}
+	const extendsValues =
+		typeof raw.extends === 'string' ? [raw.extends] : (raw.extends ?? [])
+	for (const extendsValue of extendsValues) {
+		const extendsPath = resolveExtendsPath(configPath, extendsValue)
+		if (!extendsPath || seen.has(extendsPath) || !existsSync(extendsPath)) {
+			continue
+		}
+		const parent = await readCompilerOptions(extendsPath, seen)
+		Object.assign(options, parent.options)
+	}
+
+	// Paths are relative to the config that declares them
+	if (raw.compilerOptions?.baseUrl !== undefined) {
+		options.baseUrl = path.resolve(configDir, raw.compilerOptions.baseUrl)
+	}
+	if (raw.compilerOptions?.paths) {
+		options.paths = raw.compilerOptions.paths
+		options.pathsBasePath = configDir
+	}
+	if (raw.compilerOptions?.outDir !== undefined) {
+		options.outDir = path.resolve(configDir, raw.compilerOptions.outDir)
+	}
+	if (raw.compilerOptions?.rootDir !== undefined) {
+		options.rootDir = path.resolve(configDir, raw.compilerOptions.rootDir)
+	}
+
+	return { options, raw }
+}
+
+/**
+ * Loads a tsconfig file with its path aliases and project references
+ *
+ * @param {string} configPath - Absolute path to the tsconfig file
+ * @param {TsConfigCache} cache - Cache of loaded tsconfig files
+ * @param {Set<string>} [loading] - Configs on the current reference path
+ * @returns {Promise<TsConfig | undefined>} Loaded tsconfig, or undefined if it cannot be read
+ */
+export async function loadTsConfig(
+	configPath: string,
+	cache: TsConfigCache,
+	loading: Set<string> = new Set()
+): Promise<TsConfig | undefined> {
+	if (loading.has(configPath)) {
+		return undefined
+	}
+
+	const cached = cache.configs.get(configPath)
+	if (cached) {
+		return cached
+	}
+
+	const promise = (async (): Promise<TsConfig | undefined> => {
+		try {
+			const { options, raw } = await readCompilerOptions(configPath)
+			const aliases: PathAlias[] = []
+			const basePath = options.baseUrl ?? options.pathsBasePath
+
+			if (options.paths && basePath) {
+				for (const [pattern, targets] of Object.entries(options.paths)) {
+					aliases.push({
+						pattern,
+						targets: targets.map((target) => path.resolve(basePath, target))
+					})
+				}
+			}
+			if (options.baseUrl) {
+				aliases.push({
+					pattern: '*',
+					targets: [path.join(options.baseUrl, '*')],
+					isBaseUrl: true
+				})
+			}
+
+			const references: TsConfig[] = []
+			for (const reference of raw.references ?? []) {
+				let referencePath = path.resolve(
+					path.dirname(configPath),
+					reference.path
+				)
+				if (!referencePath.endsWith('.json')) {
+					referencePath = path.join(referencePath, 'tsconfig.json')
+				}
+				const referenceConfig = await loadTsConfig(
+					referencePath,
+					cache,
+					new Set([...loading, configPath])
+				)
+				if (referenceConfig) {
+					references.push(referenceConfig)
+				}
+			}
+
+			return {
+				configPath,
+				aliases,
+				references,
+				...(options.outDir !== undefined && { outDir: options.outDir }),
+				...(options.rootDir !== undefined && { rootDir: options.rootDir })
+			}
+		} catch (error) {
+			cache.logger.error(`Error reading ${configPath}`, { configPath, error })
+			return undefined
+		}
+	})()
+
+	cache.configs.set(configPath, promise)
+	return promise
+}
+
+/**
+ * Finds the nearest tsconfig.json for a directory by walking up the tree
+ */
+function findNearestTsConfig(
+	directory: string,
+	cache: TsConfigCache
+): string | undefined {
+	if (cache.directories.has(directory)) {
+		return cache.directories.get(directory)
+	}
+
+	const configPath = path.join(directory, 'tsconfig.json')
+	const parentDirectory = path.dirname(directory)
+	const nearest = existsSync(configPath)
+		? configPath
+		: parentDirectory !== directory
+			? findNearestTsConfig(parentDirectory, cache)
+			: undefined
+
+	cache.directories.set(directory, nearest)
+	return nearest
+}
+
+/**
+ * Picks the most specific referenced project whose directory contains the file
+ */
+function selectProject(config: TsConfig, filePath: string): TsConfig {
+	let containing: TsConfig | undefined
+	for (const reference of config.references) {
+		const referenceDir = path.dirname(reference.configPath)
+		const relativePath = path.relative(referenceDir, filePath)
+		if (
+			!relativePath.startsWith('..') &&
+			!path.isAbsolute(relativePath) &&
+			(!containing ||
+				referenceDir.length > path.dirname(containing.configPath).length)
+		) {
+			containing = reference
+		}
+	}
+
+	return containing ? selectProject(containing, filePath) : config
+}
+
+/**
+ * Gets the path aliases that apply to a file
+ *
+ * @param {string} filePath - Absolute path to the file
+ * @param {TsConfigCache} cache - Cache of loaded tsconfig files
+ * @returns {Promise<PathAlias[]>} Path aliases of the file's project
+ */
+export async function findPathAliases(
+	filePath: string,
+	cache: TsConfigCache
+): Promise<PathAlias[]> {
+	const configPath = findNearestTsConfig(path.dirname(filePath), cache)
+	if (!configPath) {
+		return []
+	}
+
+	const config = await loadTsConfig(configPath, cache)
+	return config ? selectProject(config, filePath).aliases : []
+}
+
+/**
+ * Maps a compiled file back to the paths its source file can have
+ *
+ * The file has to be inside the `outDir` of its project. Without a `rootDir`,
+ * TypeScript mirrors the common directory of the sources, which is taken to be
+ * `src` or the project directory.
+ *
+ * @param {string} outputPath - Absolute path of the compiled file
+ * @param {TsConfigCache} cache - Cache of loaded tsconfig files
+ * @returns {Promise<string[]>} Absolute candidate paths of the source file, with the extension of the compiled file
+ */
+export async function findSourcePaths(
+	outputPath: string,
+	cache: TsConfigCache
+): Promise<string[]> {
+	const configPath = findNearestTsConfig(path.dirname(outputPath), cache)
+	const config = configPath && (await loadTsConfig(configPath, cache))
+	if (!config) {
+		return []
+	}
+
+	const project = selectProject(config, outputPath)
+	const { outDir, rootDir } = project
+	const relativePath = outDir && path.relative(outDir, outputPath)
+	if (
+		!relativePath ||
+		relativePath.startsWith('..') ||
+		path.isAbsolute(relativePath)
+	) {
+		return []
+	}
+	const projectDir = path.dirname(project.configPath)
+	const rootDirs = rootDir
+		? [rootDir]
+		: [path.join(projectDir, 'src'), projectDir]
+	return rootDirs.map((directory) => path.join(directory, relativePath))
+}
+
+/**
+ * Resolves a module specifier through path aliases
+ *
+ * Like TypeScript, the pattern with the longest prefix before its wildcard wins.
+ *
+ * @param {string} specifier - Module specifier
+ * @param {PathAlias[]} aliases - Path aliases to match against
+ * @returns {PathAliasMatch | undefined} Matched alias with absolute candidate paths
+ */
+export function resolvePathAlias(
+	specifier: string,
+	aliases: PathAlias[]
+): PathAliasMatch | undefined {
+	if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+		return undefined
+	}
+
+	let bestMatch: { alias: PathAlias; captured: string } | undefined
+	let bestPrefixLength = -1
+
+	for (const alias of aliases) {
+		const wildcardIndex = alias.pattern.indexOf('*')
+		if (wildcardIndex === -1) {
+			if (alias.pattern === specifier) {
+				return { alias, paths: alias.targets }
+			}
+			continue
+		}
+
+		const prefix = alias.pattern.slice(0, wildcardIndex)
+		const suffix = alias.pattern.slice(wildcardIndex + 1)
+		if (
+			specifier.length >= prefix.length + suffix.length &&
+			specifier.startsWith(prefix) &&
+			specifier.endsWith(suffix) &&
+			prefix.length > bestPrefixLength
+		) {
+			bestPrefixLength = prefix.length
+			bestMatch = {
+				alias,
+				captured: specifier.slice(
+					prefix.length,
+					specifier.length - suffix.length
+				)
+			}
+		}
+	}
+
+	if (!bestMatch) {
+		return undefined
+	}
+
+	const { alias, captured } = bestMatch
+	return {
+		alias,
+		paths: alias.targets.map((target) => target.replace('*', captured))
+	}
+}
+
+/**
+ * Converts an absolute file path to a specifier through a wildcard path alias
+ *
+ * Prefers the alias the original import used, then the alias with the most specific target.
+ * The implicit `baseUrl` alias is only used when the original import went through it.
+ *
+ * @param {string} filePath - Absolute path to the file, with or without extension
+ * @param {PathAlias[]} aliases - Path aliases of the importing file
+ * @param {PathAlias} [preferred] - Alias used by the original import
+ * @returns {string | undefined} Alias specifier for the file
+ */
+export function toPathAliasSpecifier(
+	filePath: string,
+	aliases: PathAlias[],
+	preferred?: PathAlias
+): string | undefined {
+	let bestMatch: { specifier: string; targetPrefixLength: number } | undefined
+
+	for (const alias of aliases) {
+		if (alias.isBaseUrl && alias !== preferred) {
+			continue
+		}
+		const wildcardIndex = alias.pattern.indexOf('*')
+		if (wildcardIndex === -1) {
+			continue
+		}
+
+		for (const target of alias.targets) {
+			const targetWildcardIndex = target.indexOf('*')
+			if (targetWildcardIndex === -1) {
+				continue
+			}
+			const targetPrefix = target.slice(0, targetWildcardIndex)
+			const targetSuffix = target.slice(targetWildcardIndex + 1)
+			if (
+				!filePath.startsWith(targetPrefix) ||
+				!filePath.endsWith(targetSuffix)
+			) {
+				continue
+			}
+
+			const captured = filePath
+				.slice(targetPrefix.length, filePath.length - targetSuffix.length)
+				.split(path.sep)
+				.join('/')
+			const specifier =
+				alias.pattern.slice(0, wildcardIndex) +
+				captured +
+				alias.pattern.slice(wildcardIndex + 1)
+
+			if (alias === preferred) {
+				return specifier
+			}
+			if (!bestMatch || targetPrefix.length > bestMatch.targetPrefixLength) {
+				bestMatch = { specifier, targetPrefixLength: targetPrefix.length }
+			}
+		}
+	}
+
+	return bestMatch?.specifier
+}
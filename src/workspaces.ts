@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Finds the packages of a monorepo from its workspace configs, so that
+ * every internal package can be migrated without a hand-crafted source glob
+ */
+
+import { existsSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import fg from 'fast-glob'
+import { createLogger, type Logger } from './logger'
+import { readPackageJson } from './package-json'
+
+/**
+ * Lerna looks for packages here when lerna.json does not list any
+ */
+const DEFAULT_LERNA_PACKAGES = ['packages/*']
+
+/**
+ * Directories that are never searched for packages or Nx projects
+ */
+const IGNORED_DIRECTORIES = ['**/node_modules/**', '**/dist/**', '**/build/**']
+
+/**
+ * @property {string} rootPath - Directory that contains the workspace configs
+ * @property {string[]} patterns - Directory patterns of the workspace packages, with `!` for excluded directories
+ */
+export interface Workspace {
+	rootPath: string
+	patterns: string[]
+}
+
+/**
+ * Removes the quotes around a YAML string
+ */
+function unquote(value: string): string {
+	return value.trim().replace(/^(['"])(.*)\1$/, '$2')
+}
+
+/**
+ * Turns a package directory pattern into a pattern of its package.json
+ */
+function toPackageJsonPattern(pattern: string): string {
+	return `${pattern.replace(/\/+$/, '')}/package.json`
+}
+
+/**
+ * Reads the `packages` list of a pnpm-workspace.yaml file
+ *
+ * Only the parts of YAML that workspace files use are supported: a top-level
+ * `packages` key with a block or flow sequence of plain or quoted strings.
+ *
+ * @param {string} content - File content
+ * @returns {string[]} Directory patterns of the packages
+ */
+export function parsePnpmWorkspace(content: string): string[] {
+	const patterns: string[] = []
+	let inPackages = false
+	for (const line of content.split(/\r?\n/)) {
+		const text = line.replace(/(^|\s)#.*$/, '').trimEnd()
+		if (text.trim() === '') {
+			continue
+		}
+		if (!/^\s/.test(text)) {
+			const match = /^packages\s*:\s*(.*)$/.exec(text)
+			inPackages = match !== null
+			const flowSequence = /^\[(.*)\]$/.exec(match?.[1] ?? '')
+			if (flowSequence?.[1]) {
+				patterns.push(...flowSequence[1].split(',').map(unquote))
+			}
+			continue
+		}
+		const item = /^\s*-\s+(.+)$/.exec(text)
+		if (inPackages && item?.[1]) {
+			patterns.push(unquote(item[1]))
+		}
+	}
+	return patterns.filter((pattern) => pattern.length > 0)
+}
+
+/**
+ * Reads the package directories of an Nx workspace
+ *
+ * Nx projects are the directories directly inside the `workspaceLayout` apps and
+ * libs directories, and the directories with a project.json file.
+ *
+ * @param {string} directory - Directory that contains nx.json
+ * @returns {Promise<string[]>} Directory patterns of the projects
+ */
+async function readNxPatterns(directory: string): Promise<string[]> {
+	const nx: { workspaceLayout?: { appsDir?: string; libsDir?: string } } =
+		JSON.parse(await readFile(path.join(directory, 'nx.json'), 'utf-8'))
+	const { appsDir = 'apps', libsDir = 'libs' } = nx.workspaceLayout ?? {}
+
+	const projectFiles = await fg('**/project.json', {
+		cwd: directory,
+		ignore: IGNORED_DIRECTORIES
+	})
+	const projectRoots = projectFiles
+		.map((file) => path.posix.dirname(file))
+		.filter((projectRoot) => projectRoot !== '.')
+		.map((projectRoot) => fg.escapePath(projectRoot))
+
+	return [`${appsDir}/*`, `${libsDir}/*`, ...projectRoots]
+}
+
+/**
+ * Reads the workspace package patterns of a directory
+ *
+ * Patterns come from pnpm-workspace.yaml, the package.json `workspaces` field and
+ * lerna.json `packages`. The projects of nx.json are only used when the directory
+ * has none of these, as they would add directories the package manager does not link.
+ *
+ * @param {string} directory - Directory that may contain workspace configs
+ * @returns {Promise<string[] | undefined>} Directory patterns, or undefined if the directory is not a workspace root
+ */
+async function readWorkspacePatterns(
+	directory: string
+): Promise<string[] | undefined> {
+	const patterns: string[] = []
+	let isRoot = false
+
+	const pnpmWorkspacePath = path.join(directory, 'pnpm-workspace.yaml')
+	if (existsSync(pnpmWorkspacePath)) {
+		isRoot = true
+		patterns.push(
+			...parsePnpmWorkspace(await readFile(pnpmWorkspacePath, 'utf-8'))
+		)
+	}
+
+	if (existsSync(path.join(directory, 'package.json'))) {
+		const { workspaces } = await readPackageJson(directory)
+		if (workspaces) {
+			isRoot = true
+			patterns.push(
+				...(Array.isArray(workspaces)
+					? workspaces
+					: (workspaces.packages ?? []))
+			)
+		}
+	}
+
+	const lernaPath = path.join(directory, 'lerna.json')
+	if (existsSync(lernaPath)) {
+		isRoot = true
+		const lerna: { packages?: string[] } = JSON.parse(
+			await readFile(lernaPath, 'utf-8')
+		)
+		patterns.push(...(lerna.packages ?? DEFAULT_LERNA_PACKAGES))
+	}
+
+	if (!isRoot && existsSync(path.join(directory, 'nx.json'))) {
+		isRoot = true
+		patterns.push(...(await readNxPatterns(directory)))
+	}
+
+	return isRoot ? patterns : undefined
+}
+
+/**
+ * Finds the workspace a directory belongs to, looking in the directory and then its ancestors
+ *
+ * @param {string} directory - Directory to start looking in
+ * @returns {Promise<Workspace | undefined>} Nearest workspace root and its package patterns, or undefined if there is none
+ */
+export async function findWorkspace(
+	directory: string
+): Promise<Workspace | undefined> {
+	let currentDirectory = path.resolve(directory)
+	while (true) {
+		const patterns = await readWorkspacePatterns(currentDirectory)
+		if (patterns) {
+			return { rootPath: currentDirectory, patterns }
+		}
+
+		const parentDirectory = path.dirname(currentDirectory)
+		if (parentDirectory === currentDirectory) {
+			return undefined
+		}
+		currentDirectory = parentDirectory
+	}
+}
+
+/**
+ * Finds the packages of the workspace a directory belongs to
+ *
+ * Only directories the workspace configs list are packages, so nested fixtures and
+ * example apps with a package.json of their own are left out. The workspace root
+ * itself is not a package.
+ *
+ * @param {string} directory - Directory inside the workspace
+ * @param {Logger} [logger] - Logger for the workspace and packages found
+ * @returns {Promise<string[]>} Absolute paths of the packages
+ */
+export async function findWorkspacePackages(
+	directory: string,
+	logger: Logger = createLogger()
+): Promise<string[]> {
+	const workspace = await findWorkspace(directory)
+	if (!workspace) {
+		throw new Error(
+			`No pnpm-workspace.yaml, package.json workspaces, lerna.json or nx.json found in ${path.resolve(directory)} or its parent directories`
+		)
+	}
+	logger.info(`Looking for workspace packages in: ${workspace.rootPath}`, {
+		rootPath: workspace.rootPath
+	})
+
+	const packageJsonFiles = await fg(
+		workspace.patterns
+			.filter((pattern) => !pattern.startsWith('!'))
+			.map(toPackageJsonPattern),
+		{
+			cwd: workspace.rootPath,
+			ignore: [
+				...IGNORED_DIRECTORIES,
+				...workspace.patterns
+					.filter((pattern) => pattern.startsWith('!'))
+					.map((pattern) => toPackageJsonPattern(pattern.slice(1)))
+			],
+			absolute: true
+		}
+	)
+
+	const packagePaths = packageJsonFiles
+		.map((file) => path.dirname(file))
+		.filter((packagePath) => packagePath !== workspace.rootPath)
+	packagePaths.sort()
+
+	logger.debug(`Found ${packagePaths.length} workspace packages:`)
+	packagePaths.forEach((packagePath) =>
+		logger.debug(`  - ${packagePath}`, { packagePath })
+	)
+	return packagePaths
+}
@@ -1,10 +1,46 @@
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { main } from '../src/cli'
 import { migrateBarrelImports } from '../src/migrate-barrel-imports'
+import type { MigrationReport } from '../src/migrate-barrel-imports'
 import type { Options } from '../src/options'
 
+const { createReport } = vi.hoisted(() => ({
+	createReport: (
+		overrides: Partial<MigrationReport> = {}
+	): MigrationReport => ({
+		stats: {
+			sourcePackagesFound: 1,
+			sourcePackagesProcessed: 1,
+			sourcePackagesSkipped: 0,
+			sourceFilesFound: 2,
+			sourceFilesWithExports: 2,
+			sourceFilesSkipped: 0,
+			exportsFound: 2,
+			targetFilesFound: 1,
+			targetFilesProcessed: 1,
+			importsUpdated: 1,
+			noChangesNeeded: 0,
+			targetFilesSkipped: 0,
+			importsMigrated: 1,
+			exportsEntriesAdded: 0
+		},
+		packages: [],
+		rewrites: [],
+		unresolved: [],
+		ambiguous: [],
+		skippedFiles: [],
+		warnings: [],
+		...overrides
+	})
+}))
+
 vi.mock('../src/migrate-barrel-imports', (): object => ({
-	migrateBarrelImports: vi.fn()
+	// Resetting the mock restores this implementation
+	migrateBarrelImports: vi.fn(async () => createReport())
 }))
 
 describe.concurrent('cli', (): void => {
@@ -35,10 +71,20 @@ describe.concurrent('cli', (): void => {
 		const options: Options = {
 			sourcePath: 'source-package',
 			targetPath: '.',
+			allWorkspaces: false,
+			include: [],
+			exclude: [],
 			includeExtension: true,
 			ignoreSourceFiles: [],
 			ignoreTargetFiles: [],
-			dryRun: false
+			relativeImports: false,
+			dryRun: false,
+			check: false,
+			diff: false,
+			generateExports: false,
+			exportsWildcards: false,
+			exportsConditions: [],
+			mergeImports: false
 		}
 
 		// Assert that migrateBarrelImports was called with the expected options
@@ -54,7 +100,8 @@ describe.concurrent('cli', (): void => {
 			'target-dir',
 			'--ignore-source-files=**/*.test.ts,**/node_modules/**',
 			'--ignore-target-files=**/*.spec.ts,**/dist/**',
-			'--no-extension'
+			'--no-extension',
+			'--relative-imports'
 		]
 
 		// Call the main function
@@ -63,16 +110,231 @@ describe.concurrent('cli', (): void => {
 		const options: Options = {
 			sourcePath: 'source-package',
 			targetPath: 'target-dir',
+			allWorkspaces: false,
+			include: [],
+			exclude: [],
 			ignoreSourceFiles: ['**/*.test.ts', '**/node_modules/**'],
 			ignoreTargetFiles: ['**/*.spec.ts', '**/dist/**'],
 			includeExtension: false,
-			dryRun: false
+			relativeImports: true,
+			dryRun: false,
+			check: false,
+			diff: false,
+			generateExports: false,
+			exportsWildcards: false,
+			exportsConditions: [],
+			mergeImports: false
 		}
 
 		// Assert that migrateBarrelImports was called with the expected options
 		expect(migrateBarrelImports).toHaveBeenCalledWith(options)
 	})
 
+	it('should pass exports generation options', async (): Promise<void> => {
+		process.argv = [
+			'node',
+			'cli.js',
+			'source-package',
+			'--generate-exports',
+			'--exports-wildcards',
+			'--exports-conditions=types,import'
+		]
+
+		await main()
+
+		expect(migrateBarrelImports).toHaveBeenCalledWith(
+			expect.objectContaining({
+				generateExports: true,
+				exportsWildcards: true,
+				exportsConditions: ['types', 'import']
+			})
+		)
+	})
+
+	it('should merge the config file between the defaults and the CLI flags', async (): Promise<void> => {
+		const dir = path.join(os.tmpdir(), `test-cli-config-${randomUUID()}`)
+		fs.mkdirSync(dir, { recursive: true })
+		const configPath = path.join(dir, 'migrate-barrel-imports.config.json')
+		fs.writeFileSync(
+			configPath,
+			JSON.stringify({
+				sourcePath: ['libs/*', 'packages/*'],
+				ignoreTargetFiles: ['**/*.test.ts'],
+				includeExtension: false,
+				dryRun: true,
+				packages: { '@repo/ui': { ignoreSourceFiles: ['**/*.stories.tsx'] } },
+				presets: { review: { diff: true } }
+			})
+		)
+		process.argv = [
+			'node',
+			'cli.js',
+			`--config=${configPath}`,
+			'--preset=review',
+			'--ignore-target-files=**/*.spec.ts'
+		]
+
+		await main()
+
+		const options: Options = {
+			sourcePath: [path.join(dir, 'libs/*'), path.join(dir, 'packages/*')],
+			targetPath: '.',
+			allWorkspaces: false,
+			include: [],
+			exclude: [],
+			includeExtension: false,
+			ignoreSourceFiles: [],
+			ignoreTargetFiles: ['**/*.spec.ts'],
+			relativeImports: false,
+			dryRun: true,
+			check: false,
+			diff: true,
+			generateExports: false,
+			exportsWildcards: false,
+			exportsConditions: [],
+			mergeImports: false,
+			packages: { '@repo/ui': { ignoreSourceFiles: ['**/*.stories.tsx'] } }
+		}
+		expect(migrateBarrelImports).toHaveBeenCalledWith(options)
+
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('should pass log options', async (): Promise<void> => {
+		process.argv = [
+			'node',
+			'cli.js',
+			'source-package',
+			'--quiet',
+			'--json-logs'
+		]
+
+		await main()
+
+		expect(migrateBarrelImports).toHaveBeenCalledWith(
+			expect.objectContaining({ logLevel: 'warn', logFormat: 'json' })
+		)
+	})
+
+	it('should pass the concurrency', async (): Promise<void> => {
+		process.argv = ['node', 'cli.js', 'source-package', '--concurrency', '4']
+
+		await main()
+
+		expect(migrateBarrelImports).toHaveBeenCalledWith(
+			expect.objectContaining({ concurrency: 4 })
+		)
+	})
+
+	it('should pass import sorting and merging options', async (): Promise<void> => {
+		process.argv = [
+			'node',
+			'cli.js',
+			'source-package',
+			'--sort-imports',
+			'specifier',
+			'--merge-imports'
+		]
+
+		await main()
+
+		expect(migrateBarrelImports).toHaveBeenCalledWith(
+			expect.objectContaining({ sortImports: 'specifier', mergeImports: true })
+		)
+	})
+
+	it('should pass the import extension policy', async (): Promise<void> => {
+		process.argv = [
+			'node',
+			'cli.js',
+			'source-package',
+			'--import-extension',
+			'js-emitted'
+		]
+
+		await main()
+
+		expect(migrateBarrelImports).toHaveBeenCalledWith(
+			expect.objectContaining({ importExtension: 'js-emitted' })
+		)
+	})
+
+	it('should pass workspace options without a source path', async (): Promise<void> => {
+		process.argv = [
+			'node',
+			'cli.js',
+			'--all-workspaces',
+			'--include=@repo/*',
+			'--exclude=@repo/legacy-*,@repo/docs'
+		]
+
+		await main()
+
+		expect(migrateBarrelImports).toHaveBeenCalledWith(
+			expect.objectContaining({
+				sourcePath: [],
+				allWorkspaces: true,
+				include: ['@repo/*'],
+				exclude: ['@repo/legacy-*', '@repo/docs']
+			})
+		)
+	})
+
+	it.sequential('should exit with code 1 when check mode finds pending rewrites', async (): Promise<void> => {
+		process.argv = ['node', 'cli.js', 'source-package', '--check']
+		vi.mocked(migrateBarrelImports).mockResolvedValue(
+			createReport({
+				rewrites: [
+					{
+						filePath: 'src/App.tsx',
+						line: 1,
+						column: 10,
+						name: 'Button',
+						source: '@repo/ui',
+						target: '@repo/ui/src/Button.tsx'
+					}
+				]
+			})
+		)
+		const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+			throw new Error('process.exit() called')
+		})
+
+		await expect(main()).rejects.toThrow('process.exit() called')
+
+		expect(migrateBarrelImports).toHaveBeenCalledWith(
+			expect.objectContaining({ check: true })
+		)
+		expect(exitSpy).toHaveBeenCalledWith(1)
+
+		exitSpy.mockRestore()
+	})
+
+	it.sequential('should exit with code 1 when names are ambiguous', async (): Promise<void> => {
+		process.argv = ['node', 'cli.js', 'source-package']
+		vi.mocked(migrateBarrelImports).mockResolvedValue(
+			createReport({
+				ambiguous: [
+					{
+						filePath: 'src/App.tsx',
+						name: 'Button',
+						source: '@repo/ui',
+						candidates: ['src/Button.tsx', 'src/legacy/Button.tsx']
+					}
+				]
+			})
+		)
+		const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+			throw new Error('process.exit() called')
+		})
+
+		await expect(main()).rejects.toThrow('process.exit() called')
+
+		expect(exitSpy).toHaveBeenCalledWith(1)
+
+		exitSpy.mockRestore()
+	})
+
 	it('should handle missing source path', async (): Promise<void> => {
 		// Define the simulated command-line arguments without source path
 		process.argv = ['node', 'cli.js']
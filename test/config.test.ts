@@ -0,0 +1,94 @@
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { findConfigFile, loadConfig, resolveConfig } from '../src/config'
+
+const createTempDir = (): string => {
+	const dir = path.join(os.tmpdir(), `test-config-${randomUUID()}`)
+	fs.mkdirSync(dir, { recursive: true })
+	return dir
+}
+
+describe.concurrent('config', (): void => {
+	it('should find the config file in the directory or its ancestors', (): void => {
+		const dir = createTempDir()
+		const nestedDir = path.join(dir, 'apps/web')
+		fs.mkdirSync(nestedDir, { recursive: true })
+		const configPath = path.join(dir, 'migrate-barrel-imports.config.json')
+		fs.writeFileSync(configPath, '{}')
+
+		expect(findConfigFile(nestedDir)).toBe(configPath)
+		expect(findConfigFile(dir)).toBe(configPath)
+
+		// Every supported Node.js version can load JSON config files
+		fs.writeFileSync(
+			path.join(dir, 'migrate-barrel-imports.config.ts'),
+			'export default {}'
+		)
+		expect(findConfigFile(dir)).toBe(configPath)
+
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('should load JSON and TypeScript config files', async (): Promise<void> => {
+		const dir = createTempDir()
+		const jsonPath = path.join(dir, 'migrate-barrel-imports.config.json')
+		const tsPath = path.join(dir, 'migrate-barrel-imports.config.ts')
+		fs.writeFileSync(jsonPath, '{ "sourcePath": ["libs/*", "packages/*"] }')
+		fs.writeFileSync(
+			tsPath,
+			"const ignoreTargetFiles: string[] = ['**/*.test.ts']\nexport default { ignoreTargetFiles }\n"
+		)
+
+		expect(await loadConfig(jsonPath)).toEqual({
+			sourcePath: ['libs/*', 'packages/*']
+		})
+		expect(await loadConfig(tsPath)).toEqual({
+			ignoreTargetFiles: ['**/*.test.ts']
+		})
+
+		fs.writeFileSync(jsonPath, '[]')
+		await expect(loadConfig(jsonPath)).rejects.toThrow('must contain an object')
+
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('should apply presets and resolve paths against the config file', (): void => {
+		const configPath = '/repo/migrate-barrel-imports.config.json'
+		const config = {
+			sourcePath: ['libs/*', 'packages/*'],
+			ignoreTargetFiles: ['**/*.test.ts'],
+			packages: { '@repo/ui': { includeExtension: false } },
+			presets: {
+				ci: {
+					check: true,
+					report: 'reports/barrels.json',
+					packages: { '@repo/ui': { ignoreSourceFiles: ['**/*.stories.tsx'] } }
+				}
+			}
+		}
+
+		expect(resolveConfig(config, configPath)).toEqual({
+			sourcePath: ['/repo/libs/*', '/repo/packages/*'],
+			ignoreTargetFiles: ['**/*.test.ts'],
+			packages: { '@repo/ui': { includeExtension: false } }
+		})
+		expect(resolveConfig(config, configPath, 'ci')).toEqual({
+			sourcePath: ['/repo/libs/*', '/repo/packages/*'],
+			ignoreTargetFiles: ['**/*.test.ts'],
+			check: true,
+			report: '/repo/reports/barrels.json',
+			packages: {
+				'@repo/ui': {
+					includeExtension: false,
+					ignoreSourceFiles: ['**/*.stories.tsx']
+				}
+			}
+		})
+		expect(() => resolveConfig(config, configPath, 'release')).toThrow(
+			'Unknown preset "release". Available presets: ci'
+		)
+	})
+})
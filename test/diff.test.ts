@@ -0,0 +1,73 @@
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { execa } from 'execa'
+import { describe, expect, it } from 'vitest'
+import { colorizeDiff, createUnifiedDiff } from '../src/diff'
+
+describe.concurrent('diff', (): void => {
+	it('should create hunks with context around each change', (): void => {
+		const oldContent = `import { add } from "@repo/utils";
+const a = 1;
+const b = 2;
+const c = 3;
+const d = 4;
+const e = 5;
+const f = 6;
+const g = 7;
+const h = 8;
+export const sum = add(a, h);
+`
+		const newContent = oldContent
+			.replace('"@repo/utils"', '"@repo/utils/src/add"')
+			.replace('add(a, h)', 'add(a, g)')
+
+		expect(createUnifiedDiff('src/sum.ts', oldContent, newContent))
+			.toBe(`diff --git a/src/sum.ts b/src/sum.ts
+--- a/src/sum.ts
++++ b/src/sum.ts
+@@ -1,4 +1,4 @@
+-import { add } from "@repo/utils";
++import { add } from "@repo/utils/src/add";
+ const a = 1;
+ const b = 2;
+ const c = 3;
+@@ -7,4 +7,4 @@
+ const f = 6;
+ const g = 7;
+ const h = 8;
+-export const sum = add(a, h);
++export const sum = add(a, g);
+`)
+		expect(createUnifiedDiff('src/sum.ts', oldContent, oldContent)).toBe('')
+	})
+
+	it('should create patches that git apply accepts', async (): Promise<void> => {
+		const dir = path.join(os.tmpdir(), `test-diff-${randomUUID()}`)
+		fs.mkdirSync(path.join(dir, 'src'), { recursive: true })
+		const oldContent = 'import { Button } from "@repo/ui"\nrender(Button)'
+		const newContent =
+			'import { Button } from "@repo/ui/src/Button"\nrender(Button)\n'
+		fs.writeFileSync(path.join(dir, 'src/App.ts'), oldContent)
+		fs.writeFileSync(
+			path.join(dir, 'changes.patch'),
+			createUnifiedDiff('src/App.ts', oldContent, newContent)
+		)
+
+		await execa('git', ['apply', 'changes.patch'], { cwd: dir })
+
+		expect(fs.readFileSync(path.join(dir, 'src/App.ts'), 'utf-8')).toBe(
+			newContent
+		)
+
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('should color added and removed lines', (): void => {
+		const diff = createUnifiedDiff('a.ts', 'a\n', 'b\n')
+
+		expect(colorizeDiff(diff)).toContain('\u001b[31m-a\u001b[0m')
+		expect(colorizeDiff(diff)).toContain('\u001b[32m+b\u001b[0m')
+	})
+})
@@ -0,0 +1,39 @@
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { execa } from 'execa'
+import { describe, expect, it } from 'vitest'
+import { findChangedFiles } from '../src/git'
+
+const GIT_USER = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com']
+
+describe.concurrent('git', (): void => {
+	it('should list files changed since a ref and staged files', async (): Promise<void> => {
+		const dir = path.join(os.tmpdir(), `test-git-${randomUUID()}`)
+		fs.mkdirSync(path.join(dir, 'src'), { recursive: true })
+		fs.writeFileSync(path.join(dir, 'src/App.ts'), 'export const app = 1\n')
+		fs.writeFileSync(path.join(dir, 'src/Old.ts'), 'export const old = 1\n')
+		fs.writeFileSync(path.join(dir, 'src/Same.ts'), 'export const same = 1\n')
+		await execa('git', ['init', '-q', '-b', 'main'], { cwd: dir })
+		await execa('git', ['add', '.'], { cwd: dir })
+		await execa('git', [...GIT_USER, 'commit', '-qm', 'Initial'], {
+			cwd: dir
+		})
+
+		fs.writeFileSync(path.join(dir, 'src/App.ts'), 'export const app = 2\n')
+		fs.writeFileSync(path.join(dir, 'src/New.ts'), 'export const added = 1\n')
+		fs.rmSync(path.join(dir, 'src/Old.ts'))
+		await execa('git', ['add', 'src/New.ts'], { cwd: dir })
+
+		expect(await findChangedFiles({ cwd: dir, since: 'main' })).toEqual([
+			path.join(dir, 'src/App.ts'),
+			path.join(dir, 'src/New.ts')
+		])
+		expect(await findChangedFiles({ cwd: dir, staged: true })).toEqual([
+			path.join(dir, 'src/New.ts')
+		])
+
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createLogger } from '../src/logger'
+
+describe('logger', (): void => {
+	it('should only print messages up to the configured level', (): void => {
+		const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+		const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+		const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+		const logger = createLogger({ level: 'warn' })
+		logger.debug('Processing file: src/App.ts')
+		logger.info('Processing package: packages/ui')
+		logger.warn('Could not resolve "Button"')
+		logger.error('Error parsing src/App.ts', { error: 'Unexpected token' })
+
+		expect(logSpy).not.toHaveBeenCalled()
+		expect(warnSpy).toHaveBeenCalledWith('Warning: Could not resolve "Button"')
+		expect(errorSpy).toHaveBeenCalledWith(
+			'Error parsing src/App.ts:',
+			'Unexpected token'
+		)
+
+		vi.restoreAllMocks()
+	})
+
+	it('should print diffs at every level', (): void => {
+		const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+		const logger = createLogger({ level: 'silent' })
+		logger.info('Processing package: packages/ui')
+		logger.diff('--- a/src/App.ts\n+++ b/src/App.ts')
+
+		expect(logSpy.mock.calls).toEqual([['--- a/src/App.ts\n+++ b/src/App.ts']])
+
+		vi.restoreAllMocks()
+	})
+
+	it('should print entries as NDJSON', (): void => {
+		const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+		const logger = createLogger({ level: 'debug', format: 'json' })
+		logger.info('\nProcessing package: packages/ui', {
+			packagePath: 'packages/ui'
+		})
+		logger.error('Error parsing src/App.ts', {
+			error: new SyntaxError('Unexpected token')
+		})
+
+		const entries = logSpy.mock.calls.map(([line]) => JSON.parse(line))
+		expect(entries).toEqual([
+			{
+				time: expect.any(String),
+				level: 'info',
+				message: 'Processing package: packages/ui',
+				packagePath: 'packages/ui'
+			},
+			{
+				time: expect.any(String),
+				level: 'error',
+				message: 'Error parsing src/App.ts',
+				error: {
+					name: 'SyntaxError',
+					message: 'Unexpected token',
+					stack: expect.any(String)
+				}
+			}
+		])
+
+		vi.restoreAllMocks()
+	})
+})
@@ -2,7 +2,8 @@ import { randomUUID } from 'node:crypto'
 import fs from 'node:fs'
 import os from 'node:os'
 import path from 'node:path'
-import { describe, expect, it } from 'vitest'
+import { execa } from 'execa'
+import { describe, expect, it, vi } from 'vitest'
 import { migrateBarrelImports } from '../src/migrate-barrel-imports'
 import { defaultOptions, type Options } from '../src/options'
 
@@ -278,162 +279,1891 @@ export const loadConfig = (config: Config): void => {
 			expectedImports: [
 				'import { User, Config } from "@test/source-lib/src/types.ts"'
 			]
+		},
+		{
+			name: 'type-only imports',
+			sourceExports: {
+				'src/types.ts': `
+export interface User {
+  id: string;
+}
+`,
+				'src/button.ts': `
+export interface ButtonProps {
+  label: string;
+}
+
+export const Button = (props: ButtonProps): string => props.label;
+`,
+				'src/index.ts': `
+export * from "./types";
+export * from "./button";
+`
+			},
+			targetFile: {
+				path: 'src/user-button.ts',
+				content: `
+import type { User } from "@test/source-lib";
+import type { ButtonProps } from "@test/source-lib";
+import { Button } from "@test/source-lib";
+
+export const renderUser = (user: User, props: ButtonProps): string => Button({ ...props, label: user.id });
+`
+			},
+			expectedImports: [
+				'import type { User } from "@test/source-lib/src/types.ts"',
+				'import { Button } from "@test/source-lib/src/button.ts"',
+				'import type { ButtonProps } from "@test/source-lib/src/button.ts"'
+			]
+		},
+		{
+			name: 'inline type specifiers',
+			sourceExports: {
+				'src/types.ts': `
+export interface User {
+  id: string;
+}
+`,
+				'src/button.ts': `
+export interface ButtonProps {
+  label: string;
+}
+
+export const Button = (props: ButtonProps): string => props.label;
+`,
+				'src/index.ts': `
+export * from "./types";
+export * from "./button";
+`
+			},
+			targetFile: {
+				path: 'src/user-button.ts',
+				content: `
+import { type User, Button, type ButtonProps } from "@test/source-lib";
+
+export const renderUser = (user: User, props: ButtonProps): string => Button({ ...props, label: user.id });
+`
+			},
+			expectedImports: [
+				'import { type User } from "@test/source-lib/src/types.ts"',
+				'import { Button, type ButtonProps } from "@test/source-lib/src/button.ts"'
+			]
 		}
 	]
 
-	tsFeatureTests.forEach(
-		({ name, sourceExports, targetFile, expectedImports }) => {
-			it(`should migrate barrel imports for ${name}`, async () => {
-				const { monorepoDir, sourceDir, targetDir } = createTestSetup(
-					name.toLowerCase().replace(/\s+/g, '-')
-				)
+	tsFeatureTests.forEach(
+		({ name, sourceExports, targetFile, expectedImports }) => {
+			it(`should migrate barrel imports for ${name}`, async () => {
+				const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+					name.toLowerCase().replace(/\s+/g, '-')
+				)
+
+				// Setup source package
+				createPackageJson(sourceDir, '@test/source-lib')
+				createSourceFiles(sourceDir, sourceExports)
+
+				// Setup target package
+				createPackageJson(targetDir, '@test/target-app', {
+					'@test/source-lib': '1.0.0'
+				})
+				fs.writeFileSync(
+					path.join(targetDir, targetFile.path),
+					targetFile.content
+				)
+
+				// Run migration
+				await runMigrateBarrelImports({
+					sourcePath: sourceDir,
+					targetPath: monorepoDir,
+					includeExtension: true
+				})
+
+				// Verify results
+				const updatedContent = fs.readFileSync(
+					path.join(targetDir, targetFile.path),
+					'utf-8'
+				)
+				const cleanedContent = cleanOutput(updatedContent)
+
+				expectedImports?.forEach((expected) => {
+					expect(cleanedContent).toContain(expected)
+				})
+
+				// Cleanup
+				fs.rmSync(monorepoDir, { recursive: true, force: true })
+			})
+		}
+	)
+
+	// Test case for migrating barrel imports within source package when inside target
+	it('should migrate barrel imports within source package when inside target directory', async () => {
+		const monorepoDir = path.join(
+			process.env.RUNNER_TEMP || os.tmpdir(),
+			`test-source-in-target-${randomUUID()}`
+		)
+		const targetDir = path.join(monorepoDir, 'packages/target-app')
+		const internalSourceDir = path.join(targetDir, 'packages/source-lib')
+
+		// Create directory structure
+		fs.mkdirSync(path.join(targetDir, 'packages'), { recursive: true })
+		fs.mkdirSync(path.join(internalSourceDir, 'src/components'), {
+			recursive: true
+		})
+
+		// Create source package inside target directory
+		createPackageJson(internalSourceDir, '@test/source-lib')
+
+		// Create source package files with nested barrel files and components
+		createSourceFiles(internalSourceDir, {
+			'src/components/Button.tsx': `
+export const Button = ({ children }: { children: React.ReactNode }) => {
+  return <button>{children}</button>;
+};
+`,
+			'src/components/Input.tsx': `
+export const Input = ({ value }: { value: string }) => {
+  return <input value={value} />;
+};
+`,
+			'src/components/index.ts': `
+export * from './Button';
+export * from './Input';
+`,
+			'src/index.ts': `
+export * from './components';
+`
+		})
+
+		// Create a file in the source package that imports from its own barrel
+		createSourceFiles(internalSourceDir, {
+			'src/Form.tsx': `
+import { Button, Input } from "@test/source-lib";
+
+export const Form = () => {
+  return (
+    <form>
+      <Input value="test" />
+      <Button>Submit</Button>
+    </form>
+  );
+};
+`
+		})
+
+		// Create target app package
+		fs.mkdirSync(path.join(targetDir, 'src'), { recursive: true })
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.tsx': `
+import { Button, Input } from "@test/source-lib";
+
+export const App = () => {
+  return (
+    <div>
+      <Input value="test" />
+      <Button>Click me</Button>
+    </div>
+  );
+};
+`
+		})
+
+		// Run migration
+		await runMigrateBarrelImports({
+			sourcePath: internalSourceDir,
+			targetPath: targetDir,
+			includeExtension: true
+		})
+
+		// Verify results for both internal and external files
+		const formContent = fs.readFileSync(
+			path.join(internalSourceDir, 'src/Form.tsx'),
+			'utf-8'
+		)
+		const appContent = fs.readFileSync(
+			path.join(targetDir, 'src/App.tsx'),
+			'utf-8'
+		)
+
+		// Check internal file imports
+		expect(cleanOutput(formContent)).toContain(
+			'import { Button } from "@test/source-lib/src/components/Button.tsx"'
+		)
+		expect(cleanOutput(formContent)).toContain(
+			'import { Input } from "@test/source-lib/src/components/Input.tsx"'
+		)
+
+		// Check external file imports
+		expect(cleanOutput(appContent)).toContain(
+			'import { Button } from "@test/source-lib/src/components/Button.tsx"'
+		)
+		expect(cleanOutput(appContent)).toContain(
+			'import { Input } from "@test/source-lib/src/components/Input.tsx"'
+		)
+
+		// Cleanup
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should migrate barrel imports through tsconfig path aliases', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'tsconfig-path-aliases'
+		)
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/components/Button.tsx':
+				'export const Button = () => <button>Click me</button>;',
+			'src/components/index.ts': 'export * from "./Button";',
+			'src/index.ts': `
+export * from "./utils";
+export * from "./components";
+`
+		})
+
+		// Aliases are declared in a shared config that the app extends
+		createSourceFiles(monorepoDir, {
+			'tsconfig.base.json': `{
+  // Path aliases for all apps
+  "compilerOptions": {
+    "baseUrl": ".",
+    "paths": {
+      "@ui": ["packages/source-lib/src/index.ts"],
+      "@ui/*": ["packages/source-lib/src/*"],
+    },
+  },
+}`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'tsconfig.json': '{ "extends": "../../tsconfig.base.json" }',
+			'src/App.tsx': `
+import { add } from "@ui";
+import { Button } from "@ui/components";
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: false
+		})
+
+		const appContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/App.tsx'), 'utf-8')
+		)
+		expect(appContent).toContain('import { add } from "@ui/utils"')
+		expect(appContent).toContain(
+			'import { Button } from "@ui/components/Button"'
+		)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should migrate barrel imports to subpaths exposed by package.json exports', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'package-json-exports'
+		)
+
+		fs.writeFileSync(
+			path.join(sourceDir, 'package.json'),
+			JSON.stringify({
+				name: '@test/source-lib',
+				version: '1.0.0',
+				exports: {
+					'.': './src/index.ts',
+					'./utils': {
+						types: './src/utils.ts',
+						import: './src/utils.ts'
+					},
+					'./components/*': './src/components/*.tsx'
+				}
+			})
+		)
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/components/Button.tsx':
+				'export const Button = () => <button>Click me</button>;',
+			'src/internal/secret.ts': 'export const secret = "secret";',
+			'src/index.ts': `
+export * from "./utils";
+export * from "./components/Button";
+export * from "./internal/secret";
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.tsx': `
+import { add, Button, secret } from "@test/source-lib";
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true
+		})
+
+		const appContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/App.tsx'), 'utf-8')
+		)
+		expect(appContent).toContain('import { add } from "@test/source-lib/utils"')
+		expect(appContent).toContain(
+			'import { Button } from "@test/source-lib/components/Button"'
+		)
+		// No exported subpath reaches src/internal, so it stays on the barrel
+		expect(appContent).toContain('import { secret } from "@test/source-lib"')
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should add package.json exports entries for migrated files', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('generate-exports')
+
+		fs.writeFileSync(
+			path.join(sourceDir, 'package.json'),
+			JSON.stringify(
+				{
+					name: '@test/source-lib',
+					version: '1.0.0',
+					exports: { '.': './src/index.ts' }
+				},
+				null,
+				2
+			)
+		)
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/components/Button.tsx':
+				'export const Button = () => <button>Click me</button>;',
+			'src/components/Input.tsx': 'export const Input = () => <input />;',
+			'src/index.ts': `
+export * from "./utils";
+export * from "./components/Button";
+export * from "./components/Input";
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.tsx': `
+import { add, Button, Input } from "@test/source-lib";
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: false,
+			generateExports: true,
+			exportsWildcards: true,
+			exportsConditions: ['types', 'import']
+		})
+
+		const appContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/App.tsx'), 'utf-8')
+		)
+		expect(appContent).toContain(
+			'import { add } from "@test/source-lib/src/utils"'
+		)
+		expect(appContent).toContain(
+			'import { Button } from "@test/source-lib/src/components/Button"'
+		)
+
+		const packageJson = JSON.parse(
+			fs.readFileSync(path.join(sourceDir, 'package.json'), 'utf-8')
+		)
+		expect(packageJson.exports).toEqual({
+			'.': './src/index.ts',
+			'./src/utils': {
+				types: './src/utils.ts',
+				import: './src/utils.ts'
+			},
+			'./src/components/*': {
+				types: './src/components/*.tsx',
+				import: './src/components/*.tsx'
+			}
+		})
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should rewrite namespace imports to named direct imports', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('namespace-imports')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/types.ts': 'export interface User { id: string; }',
+			'src/components/Button.tsx':
+				'export const Button = () => <button>Click me</button>;',
+			'src/index.ts': `
+export * from "./utils";
+export * from "./types";
+export * from "./components/Button";
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.tsx': `
+import * as Lib from "@test/source-lib";
+import * as Other from "@test/source-lib";
+
+export const user: Lib.User = { id: "1" };
+export const sum = Lib.add(1, 2);
+export const App = () => <Lib.Button />;
+console.log(Other);
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true
+		})
+
+		const appContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/App.tsx'), 'utf-8')
+		)
+		expect(appContent).toContain(
+			'import { add } from "@test/source-lib/src/utils.ts"'
+		)
+		expect(appContent).toContain(
+			'import { type User } from "@test/source-lib/src/types.ts"'
+		)
+		expect(appContent).toContain(
+			'import { Button } from "@test/source-lib/src/components/Button.tsx"'
+		)
+		expect(appContent).toContain('const user: User =')
+		expect(appContent).toContain('const sum = add(1, 2)')
+		expect(appContent).toContain('<Button />')
+		// Namespaces used as values are left alone
+		expect(appContent).toContain('import * as Other from "@test/source-lib"')
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should migrate re-exports of the package in target files', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'consumer-re-exports'
+		)
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/types.ts': 'export interface User { id: string; }',
+			'src/components/Button.tsx':
+				'export const Button = () => <button>Click me</button>;',
+			'src/index.ts': `
+export * from "./utils";
+export * from "./types";
+export * from "./components/Button";
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/ui.ts': `
+export { Button as PrimaryButton, type User } from "@test/source-lib";
+`,
+			'src/all.ts': `
+export * from "@test/source-lib";
+export const add = 1;
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true
+		})
+
+		const uiContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/ui.ts'), 'utf-8')
+		)
+		expect(uiContent).toContain(
+			'export { Button as PrimaryButton } from "@test/source-lib/src/components/Button.tsx"'
+		)
+		expect(uiContent).toContain(
+			'export { type User } from "@test/source-lib/src/types.ts"'
+		)
+
+		// Star re-exports become explicit, leaving out names the file declares itself
+		const allContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/all.ts'), 'utf-8')
+		)
+		expect(allContent).not.toContain('export *')
+		expect(allContent).not.toContain('src/utils.ts')
+		expect(allContent).toContain(
+			'export { type User } from "@test/source-lib/src/types.ts"'
+		)
+		expect(allContent).toContain(
+			'export { Button } from "@test/source-lib/src/components/Button.tsx"'
+		)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should migrate dynamic imports and requires of the package', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('dynamic-imports')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/constants.ts': 'export const PI = 3.14159;',
+			'src/components/Button.tsx':
+				'export const Button = () => <button>Click me</button>;',
+			'src/index.ts': `
+export * from "./utils";
+export * from "./constants";
+export * from "./components/Button";
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/routes.tsx': `
+import { lazy } from "react";
+
+export const LazyButton = lazy(() =>
+  import("@test/source-lib").then((m) => ({ default: m.Button }))
+);
+export const load = async () => {
+  const { add, PI: pi } = await import("@test/source-lib");
+  return add(pi, 1);
+};
+`,
+			'src/script.js': `
+const { add } = require("@test/source-lib");
+const lib = require("@test/source-lib");
+console.log(add(1, 2), lib);
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true
+		})
+
+		const routesContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/routes.tsx'), 'utf-8')
+		)
+		expect(routesContent).toContain(
+			'import("@test/source-lib/src/components/Button.tsx").then((m) => ( { default: m.Button } ))'
+		)
+		// Names from several files are split into one import per file
+		expect(routesContent).toContain(
+			'const { add } = await import("@test/source-lib/src/utils.ts"), { PI: pi } = await import("@test/source-lib/src/constants.ts")'
+		)
+
+		const scriptContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/script.js'), 'utf-8')
+		)
+		expect(scriptContent).toContain(
+			'const { add } = require("@test/source-lib/src/utils.ts")'
+		)
+		// Modules used as a whole are left for manual migration
+		expect(scriptContent).toContain('const lib = require("@test/source-lib")')
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should split dynamic imports on one line in the style of the file', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'split-dynamic-imports'
+		)
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts': `export const add = (a: number, b: number): number => a + b`,
+			'src/constants.ts': `export const PI = 3.14159`,
+			'src/index.ts': `export * from './utils'
+export * from './constants'
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/load.ts': `export const load = async () => {
+	const { add, PI: pi = 3 } = await import('@test/source-lib')
+	return add(pi, 1)
+}
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: false
+		})
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/load.ts'), 'utf-8'))
+			.toBe(`export const load = async () => {
+	const { add } = await import('@test/source-lib/src/utils'), { PI: pi = 3 } = await import('@test/source-lib/src/constants')
+	return add(pi, 1)
+}
+`)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should retarget and split module mocks of the package', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('module-mocks')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/constants.ts': 'export const PI = 3.14159;',
+			'src/index.ts': `
+export * from "./utils";
+export * from "./constants";
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/auto.test.ts': `
+import { add } from "@test/source-lib";
+vi.mock("@test/source-lib");
+`,
+			'src/factory.test.ts': `
+vi.mock("@test/source-lib", async () => ({
+  ...(await vi.importActual("@test/source-lib")),
+  add: vi.fn(),
+  PI: 3
+}));
+`,
+			'src/legacy.test.js': `
+jest.mock("@test/source-lib", () => {
+  const add = jest.fn();
+  return { add };
+});
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true
+		})
+
+		const autoContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/auto.test.ts'), 'utf-8')
+		)
+		expect(autoContent).toContain('vi.mock("@test/source-lib/src/utils.ts")')
+
+		// Factory mocks are split by the file each mocked name comes from
+		const factoryContent = cleanOutput(
+			fs.readFileSync(path.join(targetDir, 'src/factory.test.ts'), 'utf-8')
+		)
+		expect(factoryContent).toContain(
+			'vi.mock("@test/source-lib/src/utils.ts", async () => ( { ...(await vi.importActual("@test/source-lib/src/utils.ts")), add: vi.fn() } ))'
+		)
+		expect(factoryContent).toContain(
+			'vi.mock("@test/source-lib/src/constants.ts", async () => ( { ...(await vi.importActual("@test/source-lib/src/constants.ts")), PI: 3 } ))'
+		)
+
+		// Factories that are not object literals are left for manual migration
+		const legacyContent = fs.readFileSync(
+			path.join(targetDir, 'src/legacy.test.js'),
+			'utf-8'
+		)
+		expect(legacyContent).toContain('jest.mock("@test/source-lib", () => {')
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should report pending rewrites without modifying files in check mode', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup('check-mode')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/index.ts': 'export * from "./utils";'
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		const appSource = `import { add } from "@test/source-lib";
+export const sum = add(1, 2);
+`
+		createSourceFiles(targetDir, { 'src/App.ts': appSource })
+
+		const options: Options = {
+			...defaultOptions,
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true,
+			check: true
+		}
+		const report = await migrateBarrelImports(options)
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/App.ts'), 'utf-8')).toBe(
+			appSource
+		)
+		expect(report.rewrites).toEqual([
+			{
+				filePath: path.join(targetDir, 'src/App.ts'),
+				line: 1,
+				column: 10,
+				name: 'add',
+				source: '@test/source-lib',
+				target: '@test/source-lib/src/utils.ts'
+			}
+		])
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should write changes to a patch file instead of modifying files', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup('patch-file')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/index.ts': 'export * from "./utils";'
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		const appSource = `import { add } from "@test/source-lib";
+export const sum = add(1, 2);
+`
+		createSourceFiles(targetDir, { 'src/App.ts': appSource })
+		const patchPath = path.join(monorepoDir, 'migration.patch')
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true,
+			patch: patchPath
+		})
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/App.ts'), 'utf-8')).toBe(
+			appSource
+		)
+		const patch = fs.readFileSync(patchPath, 'utf-8')
+		const appPath = path.relative(
+			process.cwd(),
+			path.join(targetDir, 'src/App.ts')
+		)
+		expect(patch).toContain(`+++ b/${appPath}`)
+		expect(patch).toContain('-import { add } from "@test/source-lib";')
+		expect(patch).toContain(
+			'+import { add } from "@test/source-lib/src/utils.ts";'
+		)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should write one diff of a file that several packages change to the patch', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'patch-several-packages'
+		)
+		const otherDir = path.join(monorepoDir, 'packages/other-lib')
+
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b',
+			'src/index.ts': "export * from './utils'"
+		})
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(otherDir, {
+			'src/format.ts': 'export const format = (value: string): string => value',
+			'src/index.ts': "export * from './format'"
+		})
+		createPackageJson(otherDir, '@test/other-lib')
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0',
+			'@test/other-lib': '1.0.0'
+		})
+		const appSource = `import { add } from '@test/source-lib'
+import { format } from '@test/other-lib'
+`
+		createSourceFiles(targetDir, { 'src/App.ts': appSource })
+		const patchPath = path.join(monorepoDir, 'migration.patch')
+
+		await runMigrateBarrelImports({
+			sourcePath: [sourceDir, otherDir],
+			targetPath: monorepoDir,
+			includeExtension: false,
+			patch: patchPath
+		})
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/App.ts'), 'utf-8')).toBe(
+			appSource
+		)
+		const appPath = path.relative(
+			process.cwd(),
+			path.join(targetDir, 'src/App.ts')
+		)
+		expect(fs.readFileSync(patchPath, 'utf-8'))
+			.toBe(`diff --git a/${appPath} b/${appPath}
+--- a/${appPath}
++++ b/${appPath}
+@@ -1,2 +1,2 @@
+-import { add } from '@test/source-lib'
+-import { format } from '@test/other-lib'
++import { add } from '@test/source-lib/src/utils'
++import { format } from '@test/other-lib/src/format'
+`)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should migrate several source globs with per-package overrides', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('package-overrides')
+		const uiDir = path.join(monorepoDir, 'libs/ui')
+		fs.mkdirSync(uiDir, { recursive: true })
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/index.ts': 'export * from "./utils";'
+		})
+		createPackageJson(uiDir, '@test/ui')
+		createSourceFiles(uiDir, {
+			'src/Button.tsx': 'export const Button = () => null;',
+			'src/index.ts': 'export * from "./Button";'
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0',
+			'@test/ui': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.ts':
+				'import { add } from "@test/source-lib";\nimport { Button } from "@test/ui";'
+		})
+
+		await migrateBarrelImports({
+			...defaultOptions,
+			sourcePath: [path.join(monorepoDir, 'libs/*'), sourceDir],
+			targetPath: monorepoDir,
+			includeExtension: true,
+			packages: { '@test/u*': { includeExtension: false } }
+		})
+
+		const updatedContent = fs.readFileSync(
+			path.join(targetDir, 'src/App.ts'),
+			'utf-8'
+		)
+		expect(cleanOutput(updatedContent)).toContain(
+			cleanOutput('import { add } from "@test/source-lib/src/utils.ts";')
+		)
+		expect(cleanOutput(updatedContent)).toContain(
+			cleanOutput('import { Button } from "@test/ui/src/Button";')
+		)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it.sequential('should send all output to an injected logger', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup('logger')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/index.ts': 'export * from "./utils";'
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.ts': 'import { add, missing } from "@test/source-lib";'
+		})
+		const logger = {
+			error: vi.fn(),
+			warn: vi.fn(),
+			info: vi.fn(),
+			debug: vi.fn(),
+			diff: vi.fn(),
+			progress: vi.fn()
+		}
+		const logSpy = vi.spyOn(console, 'log')
+
+		await migrateBarrelImports({
+			...defaultOptions,
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			logger
+		})
+
+		expect(logSpy).not.toHaveBeenCalled()
+		expect(logger.warn).toHaveBeenCalledWith(
+			`Could not resolve "missing" to a source file in ${path.join(targetDir, 'src/App.ts')}`
+		)
+		expect(logger.info).toHaveBeenCalledWith(
+			expect.stringContaining('Migration Summary'),
+			{ stats: expect.objectContaining({ importsMigrated: 1 }) }
+		)
+		expect(logger.debug).toHaveBeenCalledWith(
+			'Found exports add in src/utils.ts',
+			{
+				file: 'src/utils.ts',
+				exports: ['add']
+			}
+		)
+		expect(logger.progress).toHaveBeenCalledWith(
+			'Updating imports of @test/source-lib',
+			1,
+			1
+		)
+
+		logSpy.mockRestore()
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should scan target files once in worker threads for all packages', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup('concurrency')
+		const uiDir = path.join(monorepoDir, 'packages/ui')
+		fs.mkdirSync(uiDir, { recursive: true })
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/index.ts': 'export * from "./utils";'
+		})
+		createPackageJson(uiDir, '@test/ui')
+		createSourceFiles(uiDir, {
+			'src/Button.tsx': 'export const Button = () => null;',
+			'src/index.ts': 'export * from "./Button";'
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0',
+			'@test/ui': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.ts':
+				'import { add } from "@test/source-lib";\nimport { Button } from "@test/ui";',
+			'src/Math.ts': 'import { add } from "@test/source-lib";',
+			'src/Broken.ts': 'import { add } from "@test/source-lib"; export const ='
+		})
+
+		const report = await migrateBarrelImports({
+			...defaultOptions,
+			sourcePath: [sourceDir, uiDir],
+			targetPath: monorepoDir,
+			includeExtension: true,
+			concurrency: 2
+		})
+
+		const appContent = fs.readFileSync(
+			path.join(targetDir, 'src/App.ts'),
+			'utf-8'
+		)
+		expect(cleanOutput(appContent)).toContain(
+			cleanOutput('import { add } from "@test/source-lib/src/utils.ts";')
+		)
+		expect(cleanOutput(appContent)).toContain(
+			cleanOutput('import { Button } from "@test/ui/src/Button.tsx";')
+		)
+		expect(
+			cleanOutput(fs.readFileSync(path.join(targetDir, 'src/Math.ts'), 'utf-8'))
+		).toBe(cleanOutput('import { add } from "@test/source-lib/src/utils.ts";'))
+		expect(report.skippedFiles).toEqual([
+			{
+				filePath: path.join(targetDir, 'src/Broken.ts'),
+				kind: 'target',
+				reason: 'error'
+			}
+		])
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should only migrate target files changed since a git ref', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup('since')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/index.ts': 'export * from "./utils";'
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/Changed.ts': 'import { add } from "@test/source-lib";',
+			'src/Unchanged.ts': 'import { add } from "@test/source-lib";'
+		})
+		await execa('git', ['init', '-q'], { cwd: monorepoDir })
+		await execa('git', ['add', '.'], { cwd: monorepoDir })
+		await execa(
+			'git',
+			[
+				'-c',
+				'user.name=Test',
+				'-c',
+				'user.email=test@example.com',
+				'commit',
+				'-qm',
+				'Initial'
+			],
+			{ cwd: monorepoDir }
+		)
+		fs.appendFileSync(path.join(targetDir, 'src/Changed.ts'), '\nadd(1, 2);')
+
+		await migrateBarrelImports({
+			...defaultOptions,
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true,
+			since: 'HEAD'
+		})
+
+		expect(
+			cleanOutput(
+				fs.readFileSync(path.join(targetDir, 'src/Changed.ts'), 'utf-8')
+			)
+		).toContain(
+			cleanOutput('import { add } from "@test/source-lib/src/utils.ts";')
+		)
+		expect(
+			fs.readFileSync(path.join(targetDir, 'src/Unchanged.ts'), 'utf-8')
+		).toBe('import { add } from "@test/source-lib";')
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should preserve the formatting of code it does not rewrite', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'preserve-formatting'
+		)
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/constants.ts': 'export const PI = 3.14159;',
+			'src/index.ts': `
+export * from "./utils";
+export * from "./constants";
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.tsx': `/**
+ * Header comment
+ */
+'use client'
+
+import React from 'react'
+// Math helpers
+import { add, PI } from '@test/source-lib'
+import type { ReactNode } from 'react'
+
+export const App = (): ReactNode => {
+    const lazy = () => import('@test/source-lib').then(({ add }) => add)
+    return <div>{add(PI, 1)}</div>
+}
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true
+		})
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/App.tsx'), 'utf-8'))
+			.toBe(`/**
+ * Header comment
+ */
+'use client'
+
+import React from 'react'
+// Math helpers
+import { add } from '@test/source-lib/src/utils.ts'
+import { PI } from '@test/source-lib/src/constants.ts'
+import type { ReactNode } from 'react'
+
+export const App = (): ReactNode => {
+    const lazy = () => import('@test/source-lib/src/utils.ts').then(({ add }) => add)
+    return <div>{add(PI, 1)}</div>
+}
+`)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should sort migrated imports in place and merge them into existing imports', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'sort-and-merge-imports'
+		)
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts': `
+export const add = (a: number, b: number): number => a + b;
+export const subtract = (a: number, b: number): number => a - b;
+`,
+			'src/constants.ts': `
+export const PI = 3.14159;
+export const E = 2.71828;
+`,
+			'src/index.ts': `
+export * from "./utils";
+export * from "./constants";
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/merge.ts': `import React from 'react'
+import { PI } from '@test/source-lib/src/constants.ts'
+import { subtract, E, add } from '@test/source-lib'
+import type { ReactNode } from 'react'
+`,
+			'src/position.ts': `import { subtract, PI } from '@test/source-lib'
+import React from 'react'
+import { E } from '@test/source-lib'
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true,
+			sortImports: 'path',
+			mergeImports: true
+		})
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/merge.ts'), 'utf-8'))
+			.toBe(`import React from 'react'
+import { PI, E } from '@test/source-lib/src/constants.ts'
+import { add, subtract } from '@test/source-lib/src/utils.ts'
+import type { ReactNode } from 'react'
+`)
+		// Names of a file imported by an earlier barrel import are added to its declaration
+		expect(fs.readFileSync(path.join(targetDir, 'src/position.ts'), 'utf-8'))
+			.toBe(`import { E, PI } from '@test/source-lib/src/constants.ts'
+import { subtract } from '@test/source-lib/src/utils.ts'
+import React from 'react'
+`)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should use relative paths for imports inside the source package', async () => {
+		const { monorepoDir, sourceDir } = createTestSetup('relative-imports')
+
+		const index = `export * from './button'
+export * from './utils'
+`
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/button/Button.ts': `export const Button = (): string => 'button'`,
+			'src/button/index.ts': `export * from './Button'`,
+			'src/utils.ts': `export const add = (a: number, b: number): number => a + b`,
+			'src/index.ts': index,
+			'src/app/App.ts': `import { Button } from '../button'
+import { add } from '@test/source-lib'
+
+export const App = (): string => Button() + add(1, 2)
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: false,
+			relativeImports: true
+		})
+
+		expect(fs.readFileSync(path.join(sourceDir, 'src/app/App.ts'), 'utf-8'))
+			.toBe(`import { Button } from '../button/Button'
+import { add } from '../utils'
+
+export const App = (): string => Button() + add(1, 2)
+`)
+		// Barrel files keep re-exporting the barrel files they are built from
+		expect(fs.readFileSync(path.join(sourceDir, 'src/index.ts'), 'utf-8')).toBe(
+			index
+		)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should import default exports from the files that declare them', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('default-exports')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/Button.tsx': `export default function Button(): string {
+	return 'button'
+}
+`,
+			'src/App.tsx': `const App = (): string => 'app'
+export default App
+`,
+			'src/utils.ts': `export const add = (a: number, b: number): number => a + b`,
+			'src/index.ts': `export { default as Button } from './Button'
+export { default } from './App'
+export * from './utils'
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/app.ts': `import App, { Button, add } from '@test/source-lib'
+
+export const render = (): string => App() + Button() + add(1, 2)
+`,
+			'src/exports.ts': `export { Button, default } from '@test/source-lib'
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true
+		})
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/app.ts'), 'utf-8'))
+			.toBe(`import App from '@test/source-lib/src/App.tsx'
+import Button from '@test/source-lib/src/Button.tsx'
+import { add } from '@test/source-lib/src/utils.ts'
+
+export const render = (): string => App() + Button() + add(1, 2)
+`)
+		expect(fs.readFileSync(path.join(targetDir, 'src/exports.ts'), 'utf-8'))
+			.toBe(`export { default as Button } from '@test/source-lib/src/Button.tsx'
+export { default } from '@test/source-lib/src/App.tsx'
+`)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should migrate the packages of the workspace', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('all-workspaces')
+		const otherDir = path.join(monorepoDir, 'packages/other-lib')
+		const exampleDir = path.join(monorepoDir, 'examples/demo-lib')
+
+		fs.writeFileSync(
+			path.join(monorepoDir, 'pnpm-workspace.yaml'),
+			"packages:\n  - 'packages/*'\n"
+		)
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts': `export const add = (a: number, b: number): number => a + b`,
+			'src/index.ts': `export * from './utils'`
+		})
+		createSourceFiles(otherDir, {
+			'src/utils.ts': `export const subtract = (a: number, b: number): number => a - b`,
+			'src/index.ts': `export * from './utils'`
+		})
+		createPackageJson(otherDir, '@test/other-lib')
+		// Packages outside of the workspace are not migrated
+		createSourceFiles(exampleDir, {
+			'src/utils.ts': `export const multiply = (a: number, b: number): number => a * b`,
+			'src/index.ts': `export * from './utils'`
+		})
+		createPackageJson(exampleDir, '@test/demo-lib')
+		createPackageJson(targetDir, '@test/target-app')
+		const content = `import { add } from '@test/source-lib'
+import { subtract } from '@test/other-lib'
+import { multiply } from '@test/demo-lib'
+`
+		createSourceFiles(targetDir, { 'src/app.ts': content })
+
+		await runMigrateBarrelImports({
+			sourcePath: [],
+			targetPath: monorepoDir,
+			includeExtension: true,
+			allWorkspaces: true,
+			exclude: ['@test/other-*']
+		})
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/app.ts'), 'utf-8')).toBe(
+			content.replace("'@test/source-lib'", "'@test/source-lib/src/utils.ts'")
+		)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should report names that several files export unless they are pinned', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('ambiguous-exports')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/components/Button.tsx': `export const Button = (): string => 'button'`,
+			'src/components/index.ts': `export * from './Button'`,
+			'src/legacy/Button.tsx': `export const Button = (): string => 'legacy'`,
+			'src/dates.ts': `export const format = (date: Date): string => date.toISOString()
+export const parse = (value: string): Date => new Date(value)
+`,
+			'src/numbers.ts': `export const format = (value: number): string => value.toFixed(2)
+export const parse = (value: string): number => Number(value)
+`,
+			'src/index.ts': `export * from './components'
+export * from './dates'
+export * from './numbers'
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/app.ts': `import { Button, format, parse } from '@test/source-lib'
+`
+		})
+
+		const report = await migrateBarrelImports({
+			...defaultOptions,
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true,
+			packages: {
+				'@test/source-lib': { pinnedExports: { parse: 'src/numbers.ts' } }
+			}
+		})
+
+		// The barrel file only re-exports one of the files that declare Button
+		expect(fs.readFileSync(path.join(targetDir, 'src/app.ts'), 'utf-8'))
+			.toBe(`import { Button } from '@test/source-lib/src/components/Button.tsx'
+import { parse } from '@test/source-lib/src/numbers.ts'
+import { format } from '@test/source-lib'
+`)
+		expect(report.ambiguous).toEqual([
+			{
+				filePath: path.join(targetDir, 'src/app.ts'),
+				name: 'format',
+				source: '@test/source-lib',
+				candidates: ['src/dates.ts', 'src/numbers.ts']
+			}
+		])
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should keep imports of package files that declare names other files also export', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'direct-file-imports'
+		)
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/components/Button.ts': `export const Button = 'button'`,
+			'src/legacy/Button.ts': `export const Button = 'legacy'`,
+			'src/index.ts': `export * from './components/Button'
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		const appContent = `import { Button } from '@test/source-lib/src/components/Button'
+import { Button as LegacyButton } from '@test/source-lib/src/legacy/Button'
+`
+		createSourceFiles(targetDir, { 'src/app.ts': appContent })
+
+		const report = await migrateBarrelImports({
+			...defaultOptions,
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: false,
+			check: true
+		})
+
+		expect(report.rewrites).toEqual([])
+		expect(report.ambiguous).toEqual([])
+		expect(report.unresolved).toEqual([])
+		expect(fs.readFileSync(path.join(targetDir, 'src/app.ts'), 'utf-8')).toBe(
+			appContent
+		)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should resolve the package root through the entry declared in package.json', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('package-entry')
+
+		createSourceFiles(sourceDir, {
+			'package.json': JSON.stringify({
+				name: '@test/source-lib',
+				main: './dist/main.js',
+				types: './dist/main.d.ts'
+			}),
+			'tsconfig.json': JSON.stringify({
+				compilerOptions: { outDir: './dist', rootDir: './src' }
+			}),
+			'src/components/Button.tsx': `export const Button = (): string => 'button'`,
+			'src/components/index.ts': `export * from './Button'`,
+			'src/legacy/Button.tsx': `export const Button = (): string => 'legacy'`,
+			'src/legacy/index.ts': `export * from './Button'`,
+			// An old barrel file that is no longer the entry of the package
+			'src/index.ts': `export * from './legacy'`,
+			'src/main.ts': `export * from './components'
+export const VERSION = '1.0.0'
+`,
+			'src/internal.ts': `export const secret = 'secret'`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/app.ts': `import { Button, VERSION, secret } from '@test/source-lib'
+`
+		})
+
+		const report = await migrateBarrelImports({
+			...defaultOptions,
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: true
+		})
+
+		// Names the entry does not export stay on the package
+		expect(fs.readFileSync(path.join(targetDir, 'src/app.ts'), 'utf-8'))
+			.toBe(`import { Button } from '@test/source-lib/src/components/Button.tsx'
+import { VERSION } from '@test/source-lib/src/main.ts'
+import { secret } from '@test/source-lib'
+`)
+		expect(report.unresolved).toEqual([
+			{
+				filePath: path.join(targetDir, 'src/app.ts'),
+				name: 'secret',
+				source: '@test/source-lib'
+			}
+		])
 
-				// Setup source package
-				createPackageJson(sourceDir, '@test/source-lib')
-				createSourceFiles(sourceDir, sourceExports)
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
 
-				// Setup target package
-				createPackageJson(targetDir, '@test/target-app', {
-					'@test/source-lib': '1.0.0'
-				})
-				fs.writeFileSync(
-					path.join(targetDir, targetFile.path),
-					targetFile.content
-				)
+	it('should import the emitted .js files in ES modules', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'js-emitted-extension'
+		)
 
-				// Run migration
-				await runMigrateBarrelImports({
-					sourcePath: sourceDir,
-					targetPath: monorepoDir,
-					includeExtension: true
-				})
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/Button.tsx': `export const Button = (): string => 'button'`,
+			'src/format.mts': `export const format = (value: string): string => value`,
+			'src/index.ts': `export * from './Button.js'
+export * from './format.mjs'
+`
+		})
+		createSourceFiles(targetDir, {
+			'package.json': JSON.stringify({
+				name: '@test/target-app',
+				type: 'module',
+				dependencies: { '@test/source-lib': '1.0.0' }
+			}),
+			'src/app.ts': `import { Button, format } from '@test/source-lib'
+`,
+			// CommonJS files resolve imports without extensions
+			'src/legacy.cts': `import { Button } from '@test/source-lib'
+`
+		})
 
-				// Verify results
-				const updatedContent = fs.readFileSync(
-					path.join(targetDir, targetFile.path),
-					'utf-8'
-				)
-				const cleanedContent = cleanOutput(updatedContent)
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			importExtension: 'js-emitted'
+		})
 
-				expectedImports?.forEach((expected) => {
-					expect(cleanedContent).toContain(expected)
-				})
+		expect(fs.readFileSync(path.join(targetDir, 'src/app.ts'), 'utf-8'))
+			.toBe(`import { Button } from '@test/source-lib/src/Button.js'
+import { format } from '@test/source-lib/src/format.mjs'
+`)
+		expect(fs.readFileSync(path.join(targetDir, 'src/legacy.cts'), 'utf-8'))
+			.toBe(`import { Button } from '@test/source-lib/src/Button'
+`)
 
-				// Cleanup
-				fs.rmSync(monorepoDir, { recursive: true, force: true })
-			})
-		}
-	)
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
 
-	// Test case for migrating barrel imports within source package when inside target
-	it('should migrate barrel imports within source package when inside target directory', async () => {
-		const monorepoDir = path.join(
-			process.env.RUNNER_TEMP || os.tmpdir(),
-			`test-source-in-target-${randomUUID()}`
-		)
-		const targetDir = path.join(monorepoDir, 'packages/target-app')
-		const internalSourceDir = path.join(targetDir, 'packages/source-lib')
+	it('should migrate imports in the script blocks of Vue, Svelte, Astro and MDX files', async () => {
+		const { monorepoDir, sourceDir, targetDir } =
+			createTestSetup('script-blocks')
 
-		// Create directory structure
-		fs.mkdirSync(path.join(targetDir, 'packages'), { recursive: true })
-		fs.mkdirSync(path.join(internalSourceDir, 'src/components'), {
-			recursive: true
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/Button.ts': `export const Button = 'button'`,
+			'src/format.ts': `export const format = (value: string): string => value`,
+			'src/index.ts': `export * from './Button'
+export * from './format'
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
 		})
+		createSourceFiles(targetDir, {
+			'src/Card.vue': `<template>
+	<component :is="Button">{{ format('@test/source-lib') }}</component>
+</template>
 
-		// Create source package inside target directory
-		createPackageJson(internalSourceDir, '@test/source-lib')
+<script setup lang="ts">
+import { Button, format } from '@test/source-lib'
+</script>
+`,
+			'src/Card.svelte': `<script lang="ts">
+	import { Button } from '@test/source-lib'
+</script>
 
-		// Create source package files with nested barrel files and components
-		createSourceFiles(internalSourceDir, {
-			'src/components/Button.tsx': `
-export const Button = ({ children }: { children: React.ReactNode }) => {
-  return <button>{children}</button>;
-};
+<svelte:component this={Button} />
 `,
-			'src/components/Input.tsx': `
-export const Input = ({ value }: { value: string }) => {
-  return <input value={value} />;
-};
+			'src/Page.astro': `---
+import { format } from '@test/source-lib'
+---
+<p>{format('page')}</p>
+<script>
+	import { Button } from '@test/source-lib'
+</script>
 `,
-			'src/components/index.ts': `
-export * from './Button';
-export * from './Input';
+			'src/Button.mdx': `import { Button } from '@test/source-lib'
+
+# Button
+
+\`\`\`ts
+import { Button } from '@test/source-lib'
+\`\`\`
+`
+		})
+
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: false
+		})
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/Card.vue'), 'utf-8'))
+			.toBe(`<template>
+	<component :is="Button">{{ format('@test/source-lib') }}</component>
+</template>
+
+<script setup lang="ts">
+import { Button } from '@test/source-lib/src/Button'
+import { format } from '@test/source-lib/src/format'
+</script>
+`)
+		expect(fs.readFileSync(path.join(targetDir, 'src/Card.svelte'), 'utf-8'))
+			.toBe(`<script lang="ts">
+	import { Button } from '@test/source-lib/src/Button'
+</script>
+
+<svelte:component this={Button} />
+`)
+		expect(fs.readFileSync(path.join(targetDir, 'src/Page.astro'), 'utf-8'))
+			.toBe(`---
+import { format } from '@test/source-lib/src/format'
+---
+<p>{format('page')}</p>
+<script>
+	import { Button } from '@test/source-lib/src/Button'
+</script>
+`)
+		// Code fences in MDX are examples, not imports
+		expect(fs.readFileSync(path.join(targetDir, 'src/Button.mdx'), 'utf-8'))
+			.toBe(`import { Button } from '@test/source-lib/src/Button'
+
+# Button
+
+\`\`\`ts
+import { Button } from '@test/source-lib'
+\`\`\`
+`)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should keep forwarding the packages a barrel star re-exports', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'external-star-re-exports'
+		)
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/Button.ts': `export const Button = 'button'`,
+			'src/components/index.ts': `export * from '../Button'
+export * from 'external-lib'
 `,
-			'src/index.ts': `
-export * from './components';
+			'src/index.ts': `export * from './components'
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/index.ts': `export * from '@test/source-lib'
 `
 		})
 
-		// Create a file in the source package that imports from its own barrel
-		createSourceFiles(internalSourceDir, {
-			'src/Form.tsx': `
-import { Button, Input } from "@test/source-lib";
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: false
+		})
 
-export const Form = () => {
-  return (
-    <form>
-      <Input value="test" />
-      <Button>Submit</Button>
-    </form>
-  );
-};
+		expect(fs.readFileSync(path.join(targetDir, 'src/index.ts'), 'utf-8'))
+			.toBe(`export { Button } from '@test/source-lib/src/Button'
+export * from 'external-lib'
+`)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should not expand names a file re-exports by name from the package', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'explicit-and-star-re-exports'
+		)
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/Button.ts': `export const Button = 'button'`,
+			'src/helper.ts': `export const helper = 'helper'`,
+			'src/index.ts': `export * from './Button'
+export * from './helper'
+`
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/index.ts': `export { helper } from '@test/source-lib'
+export * from '@test/source-lib'
 `
 		})
 
-		// Create target app package
-		fs.mkdirSync(path.join(targetDir, 'src'), { recursive: true })
+		await runMigrateBarrelImports({
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: false
+		})
+
+		expect(fs.readFileSync(path.join(targetDir, 'src/index.ts'), 'utf-8'))
+			.toBe(`export { helper } from '@test/source-lib/src/helper'
+export { Button } from '@test/source-lib/src/Button'
+`)
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should migrate each script block of a file as a module of its own', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'separate-script-blocks'
+		)
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/Button.ts': `export const Button = 'button'`,
+			'src/Icon.ts': `export const Icon = 'icon'`,
+			'src/index.ts': `export * from './Button'
+export * from './Icon'
+`
+		})
 		createPackageJson(targetDir, '@test/target-app', {
 			'@test/source-lib': '1.0.0'
 		})
 		createSourceFiles(targetDir, {
-			'src/App.tsx': `
-import { Button, Input } from "@test/source-lib";
+			'src/Page.astro': `---
+import { Button } from '@test/source-lib'
+if (!Astro.locals.user) {
+	return Astro.redirect('/login')
+}
+---
+<Button />
+<script>
+	import { Icon } from '@test/source-lib'
+</script>
+`,
+			'src/Card.vue': `<script lang="ts">
+import { Button } from '@test/source-lib'
+export default { components: { Button } }
+</script>
 
-export const App = () => {
-  return (
-    <div>
-      <Input value="test" />
-      <Button>Click me</Button>
-    </div>
-  );
-};
+<script setup lang="ts">
+import { Button as B2 } from '@test/source-lib'
+</script>
 `
 		})
 
-		// Run migration
 		await runMigrateBarrelImports({
-			sourcePath: internalSourceDir,
-			targetPath: targetDir,
-			includeExtension: true
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			includeExtension: false
 		})
 
-		// Verify results for both internal and external files
-		const formContent = fs.readFileSync(
-			path.join(internalSourceDir, 'src/Form.tsx'),
-			'utf-8'
-		)
-		const appContent = fs.readFileSync(
-			path.join(targetDir, 'src/App.tsx'),
-			'utf-8'
-		)
+		expect(fs.readFileSync(path.join(targetDir, 'src/Page.astro'), 'utf-8'))
+			.toBe(`---
+import { Button } from '@test/source-lib/src/Button'
+if (!Astro.locals.user) {
+	return Astro.redirect('/login')
+}
+---
+<Button />
+<script>
+	import { Icon } from '@test/source-lib/src/Icon'
+</script>
+`)
+		expect(fs.readFileSync(path.join(targetDir, 'src/Card.vue'), 'utf-8'))
+			.toBe(`<script lang="ts">
+import { Button } from '@test/source-lib/src/Button'
+export default { components: { Button } }
+</script>
 
-		// Check internal file imports
-		expect(cleanOutput(formContent)).toContain(
-			'import { Button } from "@test/source-lib/src/components/Button.tsx"'
-		)
-		expect(cleanOutput(formContent)).toContain(
-			'import { Input } from "@test/source-lib/src/components/Input.tsx"'
-		)
+<script setup lang="ts">
+import { Button as B2 } from '@test/source-lib/src/Button'
+</script>
+`)
 
-		// Check external file imports
-		expect(cleanOutput(appContent)).toContain(
-			'import { Button } from "@test/source-lib/src/components/Button.tsx"'
-		)
-		expect(cleanOutput(appContent)).toContain(
-			'import { Input } from "@test/source-lib/src/components/Input.tsx"'
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should write a JSON report of the migration', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup('report')
+
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b;',
+			'src/index.ts': 'export * from "./utils";'
+		})
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.ts': 'import { add, missing } from "@test/source-lib";',
+			'src/App.test.ts': 'import { add } from "@test/source-lib";'
+		})
+		const reportPath = path.join(monorepoDir, 'report.json')
+
+		const report = await migrateBarrelImports({
+			...defaultOptions,
+			sourcePath: sourceDir,
+			targetPath: monorepoDir,
+			ignoreTargetFiles: ['**/*.test.ts'],
+			includeExtension: true,
+			report: reportPath
+		})
+
+		expect(JSON.parse(fs.readFileSync(reportPath, 'utf-8'))).toEqual(report)
+		expect(report.packages).toEqual([
+			expect.objectContaining({
+				name: '@test/source-lib',
+				path: sourceDir,
+				stats: expect.objectContaining({
+					targetFilesProcessed: 1,
+					targetFilesSkipped: 1,
+					importsMigrated: 1
+				})
+			})
+		])
+		expect(report.rewrites).toEqual([
+			expect.objectContaining({
+				name: 'add',
+				source: '@test/source-lib',
+				target: '@test/source-lib/src/utils.ts'
+			})
+		])
+		expect(report.unresolved).toEqual([
+			{
+				filePath: path.join(targetDir, 'src/App.ts'),
+				name: 'missing',
+				source: '@test/source-lib'
+			}
+		])
+		expect(report.skippedFiles).toEqual([
+			{
+				filePath: path.join(targetDir, 'src/App.test.ts'),
+				kind: 'target',
+				reason: 'ignored'
+			}
+		])
+
+		fs.rmSync(monorepoDir, { recursive: true, force: true })
+	})
+
+	it('should report target files that several packages skip once', async () => {
+		const { monorepoDir, sourceDir, targetDir } = createTestSetup(
+			'report-skipped-once'
 		)
+		const otherDir = path.join(monorepoDir, 'packages/other-lib')
+
+		createSourceFiles(sourceDir, {
+			'src/utils.ts':
+				'export const add = (a: number, b: number): number => a + b',
+			'src/index.ts': "export * from './utils'"
+		})
+		createPackageJson(sourceDir, '@test/source-lib')
+		createSourceFiles(otherDir, {
+			'src/format.ts': 'export const format = (value: string): string => value',
+			'src/index.ts': "export * from './format'"
+		})
+		createPackageJson(otherDir, '@test/other-lib')
+		createPackageJson(targetDir, '@test/target-app', {
+			'@test/source-lib': '1.0.0',
+			'@test/other-lib': '1.0.0'
+		})
+		createSourceFiles(targetDir, {
+			'src/App.ts': `import { add } from '@test/source-lib'
+import { format } from '@test/other-lib'
+`,
+			'src/App.test.ts': `import { add } from '@test/source-lib'
+import { format } from '@test/other-lib'
+`
+		})
+
+		const report = await migrateBarrelImports({
+			...defaultOptions,
+			sourcePath: [sourceDir, otherDir],
+			targetPath: targetDir,
+			ignoreTargetFiles: ['**/*.test.ts'],
+			dryRun: true
+		})
+
+		expect(report.skippedFiles).toEqual([
+			{
+				filePath: path.join(targetDir, 'src/App.test.ts'),
+				kind: 'target',
+				reason: 'ignored'
+			}
+		])
+		expect(report.stats.targetFilesSkipped).toBe(1)
+		expect(
+			report.packages.map(({ stats }) => stats.targetFilesSkipped)
+		).toEqual([1, 1])
 
-		// Cleanup
 		fs.rmSync(monorepoDir, { recursive: true, force: true })
 	})
 
@@ -466,7 +2196,8 @@ export const App = () => {
 			expectedImports: [
 				'import { add } from "@test/source-lib/src/utils.ts"',
 				'import { PI } from "@test/source-lib/src/constants.ts"',
-				'import { multiply } from "@test/source-lib/src/features/math.ts"'
+				// The entry does not export multiply, so it is not part of the public API
+				'import { multiply } from "@test/source-lib"'
 			]
 		},
 		{
@@ -523,7 +2254,7 @@ export const App = () => {
 			expectedImports: [
 				'import { a } from "@test/source-lib/src/a.ts"',
 				'import { b } from "@test/source-lib/src/b.ts"',
-				'import { c } from "@test/source-lib/src/circular.ts"'
+				'import { c } from "@test/source-lib"'
 			]
 		},
 		{
@@ -546,9 +2277,8 @@ export const App = () => {
 			},
 			expectedImports: [
 				'import { add } from "@test/source-lib/src/utils.ts"',
-				'import { PI } from "@test/source-lib/src/constants.ts"',
 				'import { multiply } from "@test/source-lib/src/index.ts"',
-				'import { Calculator } from "@test/source-lib"'
+				'import { PI, Calculator } from "@test/source-lib"'
 			]
 		},
 		{
@@ -717,6 +2447,51 @@ export const App = () => {
 			expectedImports: [
 				'import { Button } from "@test/source-lib/src/components/Button.tsx"'
 			]
+		},
+		{
+			name: 'Star re-exports through chains of barrel files',
+			sourceExports: {
+				'src/components/button/Button.tsx': `
+          const Button = () => <button>Click me</button>;
+          export { Button };
+        `,
+				'src/components/button/index.ts': `
+          export * from "./Button";
+        `,
+				'src/components/index.ts': `
+          export * from "./button";
+        `,
+				'src/index.ts': `
+          export * from "./components";
+        `
+			},
+			targetFile: {
+				path: 'src/app.tsx',
+				content: `
+          import { Button } from "@test/source-lib";
+        `
+			},
+			expectedImports: [
+				'import { Button } from "@test/source-lib/src/components/button/Button.tsx"'
+			]
+		},
+		{
+			name: 'Namespace re-exports',
+			sourceExports: {
+				'src/math.ts': `
+          export const add = (a: number, b: number): number => a + b;
+        `,
+				'src/index.ts': `
+          export * as math from "./math";
+        `
+			},
+			targetFile: {
+				path: 'src/app.ts',
+				content: `
+          import { math } from "@test/source-lib";
+        `
+			},
+			expectedImports: ['import * as math from "@test/source-lib/src/math.ts"']
 		}
 	]
 
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { findExportedSubpath, getEntryPaths } from '../src/package-json'
+
+describe.concurrent('package-json', (): void => {
+	it('should find subpaths through conditions and wildcard patterns', (): void => {
+		const packageJson = {
+			name: '@repo/ui',
+			exports: {
+				'.': { types: './src/index.ts', default: './src/index.ts' },
+				'./icons/*': { import: './src/icons/*.js' },
+				'./*': './src/*'
+			}
+		}
+
+		expect(findExportedSubpath(packageJson, 'src/index.ts')).toBe('')
+		expect(findExportedSubpath(packageJson, 'src/icons/Arrow.ts')).toBe(
+			'icons/Arrow'
+		)
+		expect(findExportedSubpath(packageJson, 'src/button/Button.tsx')).toBe(
+			'button/Button.tsx'
+		)
+	})
+
+	it('should list the entry paths of the package root without extensions', (): void => {
+		expect(
+			getEntryPaths({
+				name: '@repo/ui',
+				source: './src/main.ts',
+				exports: {
+					'.': { types: './dist/index.d.ts', import: './dist/index.mjs' },
+					'./button': './dist/button.js'
+				},
+				main: './dist/index.cjs',
+				types: './dist/index.d.ts'
+			})
+		).toEqual(['src/main', 'dist/index'])
+		expect(
+			getEntryPaths({ name: '@repo/core', exports: './lib/index.js' })
+		).toEqual(['lib/index'])
+	})
+
+	it('should not use subpaths that are blocked with null', (): void => {
+		const packageJson = {
+			name: '@repo/ui',
+			exports: {
+				'./*': './src/*.ts',
+				'./internal/*': null
+			}
+		}
+
+		expect(findExportedSubpath(packageJson, 'src/button.ts')).toBe('button')
+		expect(
+			findExportedSubpath(packageJson, 'src/internal/secret.ts')
+		).toBeUndefined()
+	})
+
+	it('should fall back to typesVersions when there is no exports map', (): void => {
+		const packageJson = {
+			name: '@repo/ui',
+			typesVersions: { '*': { '*': ['src/*'] } }
+		}
+
+		expect(findExportedSubpath(packageJson, 'src/button/Button.ts')).toBe(
+			'button/Button'
+		)
+		expect(findExportedSubpath(packageJson, 'lib/legacy.ts')).toBeUndefined()
+	})
+})
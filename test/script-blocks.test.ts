@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { findScriptBlocks, getScriptSource } from '../src/script-blocks'
+
+const getScripts = (filePath: string, content: string): string[] =>
+	(findScriptBlocks(filePath, content) ?? []).map(({ start, end }) =>
+		content.slice(start, end)
+	)
+
+describe.concurrent('script-blocks', (): void => {
+	it('should find the scripts of Vue, Svelte and Astro files', (): void => {
+		expect(
+			getScripts(
+				'Card.vue',
+				`<template><Button /></template>
+<script lang="ts">export default {}</script>
+<script setup lang="ts">
+import { Button } from '@repo/ui'
+</script>
+<script src="./legacy.js"></script>`
+			)
+		).toEqual([
+			'export default {}',
+			`
+import { Button } from '@repo/ui'
+`
+		])
+		expect(
+			getScripts(
+				'Card.svelte',
+				`<script context="module">export const prerender = true</script>
+<script type="application/ld+json">{ "name": "Card" }</script>`
+			)
+		).toEqual(['export const prerender = true'])
+		expect(
+			getScripts(
+				'Page.astro',
+				`---
+import { Button } from '@repo/ui'
+---
+<Button />
+<script>import { track } from '@repo/analytics'</script>
+<script is:inline>window.ready = true</script>`
+			)
+		).toEqual([
+			`import { Button } from '@repo/ui'
+`,
+			`import { track } from '@repo/analytics'`
+		])
+		expect(findScriptBlocks('Button.tsx', '')).toBeUndefined()
+	})
+
+	it('should find the ESM blocks of MDX files outside code fences', (): void => {
+		expect(
+			getScripts(
+				'Button.mdx',
+				`import { Meta } from '@storybook/blocks'
+import { Button } from '@repo/ui'
+
+# Button
+
+Import it like this:
+
+\`\`\`ts
+import { Button } from '@repo/ui'
+
+export const example = true
+\`\`\`
+
+export const meta = {
+	title: 'Button'
+}
+`
+			)
+		).toEqual([
+			`import { Meta } from '@storybook/blocks'
+import { Button } from '@repo/ui'`,
+			`export const meta = {
+	title: 'Button'
+}`
+		])
+	})
+
+	it('should keep the offsets of a script when blanking out the rest of the file', (): void => {
+		const content = `<script>export default {}</script>
+<template>
+	<Button />
+</template>
+<script setup>import { Button } from '@repo/ui'</script>
+`
+		const [, setupBlock] = findScriptBlocks('Card.vue', content) ?? []
+		const source = setupBlock ? getScriptSource(content, setupBlock) : ''
+
+		expect(source).toHaveLength(content.length)
+		expect(source.split('\n')).toEqual([
+			' '.repeat('<script>export default {}</script>'.length),
+			' '.repeat('<template>'.length),
+			' '.repeat('\t<Button />'.length),
+			' '.repeat('</template>'.length),
+			`${' '.repeat('<script setup>'.length)}import { Button } from '@repo/ui'${' '.repeat('</script>'.length)}`,
+			''
+		])
+	})
+})
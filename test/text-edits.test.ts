@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import {
+	applyTextEdits,
+	createRemovalEdit,
+	getIndentation,
+	getLineBreak
+} from '../src/text-edits'
+
+describe.concurrent('text-edits', (): void => {
+	it('should apply edits in offset order and drop edits inside other edits', (): void => {
+		const content = `import { add } from '@repo/utils'
+const sum = utils.add(1, 2)
+`
+		const importEnd = content.indexOf('\n')
+		const memberStart = content.indexOf('utils.add')
+
+		expect(
+			applyTextEdits(content, [
+				{ start: memberStart, end: memberStart + 9, text: 'add' },
+				{
+					start: 0,
+					end: importEnd,
+					text: "import { add } from '@repo/utils/add'"
+				},
+				{ start: 20, end: 33, text: "'@repo/utils/math'" }
+			])
+		).toBe(`import { add } from '@repo/utils/add'
+const sum = add(1, 2)
+`)
+		expect(() =>
+			applyTextEdits(content, [
+				{ start: 0, end: 10, text: '' },
+				{ start: 5, end: 15, text: '' }
+			])
+		).toThrow('Overlapping edits at offsets 5-15 cannot be applied')
+	})
+
+	it('should remove statements on lines of their own with their line break', (): void => {
+		const content =
+			"import a from 'a'\r\n\timport b from 'b'\r\nimport c from 'c'; a()\r\n"
+		const bStart = content.indexOf('import b')
+		const cStart = content.indexOf('import c')
+
+		expect(getLineBreak(content)).toBe('\r\n')
+		expect(getIndentation(content, bStart)).toBe('\t')
+		expect(
+			applyTextEdits(content, [
+				createRemovalEdit(content, bStart, bStart + 17),
+				createRemovalEdit(content, cStart, cStart + 18)
+			])
+		).toBe("import a from 'a'\r\n a()\r\n")
+	})
+})
@@ -0,0 +1,144 @@
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import {
+	createTsConfigCache,
+	findPathAliases,
+	findSourcePaths,
+	parseJsonc,
+	resolvePathAlias,
+	toPathAliasSpecifier
+} from '../src/tsconfig'
+
+const writeFiles = (dir: string, files: Record<string, string>): void => {
+	Object.entries(files).forEach(([filePath, content]) => {
+		const fullPath = path.join(dir, filePath)
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+		fs.writeFileSync(fullPath, content)
+	})
+}
+
+describe.concurrent('tsconfig', (): void => {
+	it('should parse tsconfig files with comments and trailing commas', (): void => {
+		const config = parseJsonc(`{
+  // Line comment
+  "compilerOptions": {
+    /* Block comment */
+    "paths": { "@ui/*": ["src/*"], },
+    "outDir": "dist//build",
+  },
+}`)
+
+		expect(config).toEqual({
+			compilerOptions: { paths: { '@ui/*': ['src/*'] }, outDir: 'dist//build' }
+		})
+	})
+
+	it('should prefer the alias with the longest prefix', (): void => {
+		const aliases = [
+			{ pattern: '@ui/*', targets: ['/repo/libs/ui/src/*'] },
+			{ pattern: '@ui/icons/*', targets: ['/repo/libs/icons/src/*'] }
+		]
+
+		expect(resolvePathAlias('@ui/icons/general', aliases)?.paths).toEqual([
+			'/repo/libs/icons/src/general'
+		])
+		expect(resolvePathAlias('@ui/button', aliases)?.paths).toEqual([
+			'/repo/libs/ui/src/button'
+		])
+		expect(resolvePathAlias('./button', aliases)).toBeUndefined()
+	})
+
+	it('should convert files back to alias specifiers', (): void => {
+		const baseUrlAlias = {
+			pattern: '*',
+			targets: ['/repo/*'],
+			isBaseUrl: true
+		}
+		const aliases = [
+			{ pattern: '@ui', targets: ['/repo/libs/ui/src/index.ts'] },
+			{ pattern: '@ui/*', targets: ['/repo/libs/ui/src/*'] },
+			baseUrlAlias
+		]
+
+		expect(
+			toPathAliasSpecifier('/repo/libs/ui/src/button/Button', aliases)
+		).toBe('@ui/button/Button')
+		expect(
+			toPathAliasSpecifier(
+				'/repo/libs/ui/src/button/Button',
+				aliases,
+				baseUrlAlias
+			)
+		).toBe('libs/ui/src/button/Button')
+		expect(
+			toPathAliasSpecifier('/repo/libs/core/src/index', aliases)
+		).toBeUndefined()
+	})
+
+	it('should use the aliases of the referenced project containing the file', async (): Promise<void> => {
+		const rootDir = path.join(os.tmpdir(), `test-tsconfig-${randomUUID()}`)
+		writeFiles(rootDir, {
+			'tsconfig.json': JSON.stringify({
+				files: [],
+				references: [{ path: './apps/web/tsconfig.app.json' }]
+			}),
+			'tsconfig.base.json': JSON.stringify({
+				compilerOptions: { paths: { '~/lib/*': ['./libs/*'] } }
+			}),
+			'apps/web/tsconfig.app.json': JSON.stringify({
+				extends: '../../tsconfig.base.json'
+			}),
+			'apps/web/src/main.ts': ''
+		})
+
+		const aliases = await findPathAliases(
+			path.join(rootDir, 'apps/web/src/main.ts'),
+			createTsConfigCache()
+		)
+
+		expect(aliases).toEqual([
+			{ pattern: '~/lib/*', targets: [path.join(rootDir, 'libs/*')] }
+		])
+
+		fs.rmSync(rootDir, { recursive: true, force: true })
+	})
+
+	it('should map compiled files back to their source paths', async (): Promise<void> => {
+		const rootDir = path.join(os.tmpdir(), `test-tsconfig-${randomUUID()}`)
+		writeFiles(rootDir, {
+			'tsconfig.base.json': JSON.stringify({
+				compilerOptions: { outDir: './dist' }
+			}),
+			'libs/ui/tsconfig.json': JSON.stringify({
+				extends: '../../tsconfig.base.json',
+				compilerOptions: { outDir: './build', rootDir: './lib' }
+			}),
+			'libs/core/tsconfig.json': JSON.stringify({
+				compilerOptions: { outDir: './dist' }
+			})
+		})
+		const cache = createTsConfigCache()
+
+		expect(
+			await findSourcePaths(
+				path.join(rootDir, 'libs/ui/build/button/index.js'),
+				cache
+			)
+		).toEqual([path.join(rootDir, 'libs/ui/lib/button/index.js')])
+		// Without a rootDir, sources are looked for in src and the project directory
+		expect(
+			await findSourcePaths(path.join(rootDir, 'libs/core/dist/index'), cache)
+		).toEqual([
+			path.join(rootDir, 'libs/core/src/index'),
+			path.join(rootDir, 'libs/core/index')
+		])
+		expect(
+			await findSourcePaths(path.join(rootDir, 'libs/core/src/index'), cache)
+		).toEqual([])
+
+		fs.rmSync(rootDir, { recursive: true, force: true })
+	})
+})
@@ -0,0 +1,93 @@
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { findWorkspacePackages, parsePnpmWorkspace } from '../src/workspaces'
+
+const writeFiles = (dir: string, files: Record<string, string>): void => {
+	Object.entries(files).forEach(([filePath, content]) => {
+		const fullPath = path.join(dir, filePath)
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+		fs.writeFileSync(fullPath, content)
+	})
+}
+
+describe.concurrent('workspaces', (): void => {
+	it('should read the packages of pnpm-workspace.yaml files', (): void => {
+		expect(
+			parsePnpmWorkspace(`# Workspace packages
+packages:
+  - 'apps/*'
+  - "libs/**" # nested libraries
+  - '!**/fixtures/**'
+catalog:
+  - react
+`)
+		).toEqual(['apps/*', 'libs/**', '!**/fixtures/**'])
+		expect(parsePnpmWorkspace("packages: ['apps/*', libs/*]\n")).toEqual([
+			'apps/*',
+			'libs/*'
+		])
+	})
+
+	it('should find the packages the workspace configs list', async (): Promise<void> => {
+		const dir = path.join(os.tmpdir(), `test-workspaces-${randomUUID()}`)
+		writeFiles(dir, {
+			'package.json': JSON.stringify({
+				name: 'root',
+				workspaces: { packages: ['packages/*'] }
+			}),
+			'pnpm-workspace.yaml': "packages:\n  - 'tools/*'\n  - '!tools/legacy'\n",
+			'lerna.json': JSON.stringify({ packages: ['modules/*'] }),
+			// Only used when there are no other workspace configs
+			'nx.json': JSON.stringify({ workspaceLayout: { libsDir: 'shared' } }),
+			'packages/ui/package.json': JSON.stringify({ name: '@repo/ui' }),
+			'packages/ui/fixtures/app/package.json': JSON.stringify({
+				name: 'fixture-app'
+			}),
+			'tools/cli/package.json': JSON.stringify({ name: '@repo/cli' }),
+			'tools/legacy/package.json': JSON.stringify({ name: '@repo/legacy' }),
+			'modules/core/package.json': JSON.stringify({ name: '@repo/core' }),
+			'shared/utils/package.json': JSON.stringify({ name: '@repo/utils' }),
+			'examples/demo/package.json': JSON.stringify({ name: 'demo' })
+		})
+
+		// Packages are found from directories inside the workspace as well
+		expect(await findWorkspacePackages(path.join(dir, 'packages/ui'))).toEqual([
+			path.join(dir, 'modules/core'),
+			path.join(dir, 'packages/ui'),
+			path.join(dir, 'tools/cli')
+		])
+
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+
+	it('should find the projects of Nx workspaces without their nested packages', async (): Promise<void> => {
+		const dir = path.join(os.tmpdir(), `test-workspaces-${randomUUID()}`)
+		writeFiles(dir, {
+			'package.json': JSON.stringify({ name: 'root' }),
+			'nx.json': JSON.stringify({ workspaceLayout: { libsDir: 'shared' } }),
+			'apps/web/package.json': JSON.stringify({ name: 'web' }),
+			'apps/web/examples/basic/package.json': JSON.stringify({
+				name: 'basic'
+			}),
+			'shared/ui/package.json': JSON.stringify({ name: '@repo/ui' }),
+			'shared/ui/test/fixtures/demo/package.json': JSON.stringify({
+				name: 'demo'
+			}),
+			'tools/generators/project.json': JSON.stringify({ name: 'generators' }),
+			'tools/generators/package.json': JSON.stringify({
+				name: '@repo/generators'
+			})
+		})
+
+		expect(await findWorkspacePackages(dir)).toEqual([
+			path.join(dir, 'apps/web'),
+			path.join(dir, 'shared/ui'),
+			path.join(dir, 'tools/generators')
+		])
+
+		fs.rmSync(dir, { recursive: true, force: true })
+	})
+})